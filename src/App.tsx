@@ -3,14 +3,22 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
-import { AuthProvider } from "@/hooks/useAuth";
-import Index from "./pages/Index";
+import AuthProvider from "@/components/AuthProvider";
+import ImpersonationProvider from "@/components/ImpersonationProvider";
+import ReauthenticationProvider from "@/components/ReauthenticationProvider";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
+import { RequireAuth, RequireApproved, RequireRole } from "@/components/RouteGuards";
 import Auth from "./pages/Auth";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
 import VideoPlayer from "./pages/VideoPlayer";
 import Courses from "./pages/Courses";
 import CourseSubscription from "./pages/CourseSubscription";
 import CourseViewer from "./pages/CourseViewer";
 import Dashboard from "./pages/Dashboard";
+import PendingApproval from "./pages/PendingApproval";
+import Profile from "./pages/Profile";
+import Devices from "./pages/Devices";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -18,23 +26,39 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/dashboard" element={<Dashboard />} />
-            <Route path="/courses" element={<Courses />} />
-            <Route path="/course/:courseId" element={<CourseViewer />} />
-            <Route path="/course/:courseId/subscribe" element={<CourseSubscription />} />
-            <Route path="/video/:videoId" element={<VideoPlayer />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <ImpersonationProvider>
+        <ReauthenticationProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <ImpersonationBanner />
+              <Routes>
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/forgot-password" element={<ForgotPassword />} />
+                <Route path="/reset-password" element={<ResetPassword />} />
+                <Route element={<RequireAuth />}>
+                  <Route path="/pending-approval" element={<PendingApproval />} />
+                  <Route path="/profile" element={<Profile />} />
+                  <Route element={<RequireApproved />}>
+                    <Route path="/" element={<Dashboard />} />
+                    <Route path="/dashboard" element={<Dashboard />} />
+                    <Route path="/courses" element={<Courses />} />
+                    <Route path="/course/:courseId" element={<CourseViewer />} />
+                    <Route path="/video/:videoId" element={<VideoPlayer />} />
+                    <Route element={<RequireRole roles={['student']} />}>
+                      <Route path="/course/:courseId/subscribe" element={<CourseSubscription />} />
+                      <Route path="/devices" element={<Devices />} />
+                    </Route>
+                  </Route>
+                </Route>
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </BrowserRouter>
+          </TooltipProvider>
+        </ReauthenticationProvider>
+      </ImpersonationProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
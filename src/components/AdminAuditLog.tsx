@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { History, Search, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface AuditEntry {
+  id: string;
+  actor_id: string | null;
+  actor_role: string | null;
+  action: string;
+  target_table: string;
+  target_id: string | null;
+  old_data: Json | null;
+  new_data: Json | null;
+  created_at: string;
+  actor_email: string;
+}
+
+const tableLabels: Record<string, string> = {
+  profiles: 'المستخدمين',
+  subscriptions: 'الاشتراكات',
+  courses: 'الكورسات',
+  course_videos: 'فيديوهات الكورسات',
+  course_passwords: 'كلمات المرور',
+  videos: 'الفيديوهات',
+  video_access: 'منح الفيديوهات',
+  app_settings: 'الإعدادات',
+  user_devices: 'الأجهزة',
+  redemption_lockouts: 'محاولات التفعيل المحظورة',
+  account_deletion_requests: 'طلبات حذف الحسابات',
+};
+
+const actionLabels: Record<string, string> = {
+  insert: 'إنشاء',
+  update: 'تعديل',
+  delete: 'حذف',
+  impersonate: 'عرض كطالب',
+  delete_account: 'حذف حساب',
+  revoke_sessions: 'إنهاء الجلسات',
+};
+
+const PAGE_SIZE = 50;
+
+// Fields whose value differs between the before and after snapshots
+const changedFields = (entry: AuditEntry) => {
+  const before = (entry.old_data ?? {}) as Record<string, Json>;
+  const after = (entry.new_data ?? {}) as Record<string, Json>;
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return keys
+    .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map(key => ({ key, before: before[key], after: after[key] }));
+};
+
+const formatValue = (value: Json | undefined) =>
+  value === undefined || value === null ? '—' : typeof value === 'string' ? value : JSON.stringify(value);
+
+const AdminAuditLog = () => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [tableFilter, setTableFilter] = useState('all');
+  const [actionFilter, setActionFilter] = useState('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    fetchEntries(0);
+  }, [tableFilter, actionFilter, fromDate, toDate]);
+
+  const fetchEntries = async (offset: number) => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('audit_log')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (tableFilter !== 'all') query = query.eq('target_table', tableFilter);
+      if (actionFilter !== 'all') query = query.eq('action', actionFilter);
+      if (fromDate) query = query.gte('created_at', new Date(fromDate).toISOString());
+      if (toDate) query = query.lt('created_at', new Date(new Date(toDate).getTime() + 24 * 60 * 60 * 1000).toISOString());
+
+      const { data: logData, error: logError } = await query;
+
+      if (logError) throw logError;
+
+      const actorIds = [...new Set((logData || []).map(entry => entry.actor_id).filter((id): id is string => !!id))];
+
+      const { data: profilesData, error: profilesError } = actorIds.length
+        ? await supabase.from('profiles').select('user_id, email').in('user_id', actorIds)
+        : { data: [], error: null };
+
+      if (profilesError) throw profilesError;
+
+      const combinedData = (logData || []).map(entry => ({
+        ...entry,
+        actor_email: profilesData?.find(p => p.user_id === entry.actor_id)?.email || 'غير معروف'
+      }));
+
+      setEntries(prev => offset === 0 ? combinedData : [...prev, ...combinedData]);
+      setHasMore((logData || []).length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في تحميل سجل التدقيق",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredEntries = term
+    ? entries.filter(entry =>
+        entry.actor_email.toLowerCase().includes(term) ||
+        entry.target_id?.toLowerCase().includes(term) ||
+        JSON.stringify(entry.old_data ?? '').toLowerCase().includes(term) ||
+        JSON.stringify(entry.new_data ?? '').toLowerCase().includes(term)
+      )
+    : entries;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          سجل التدقيق
+        </CardTitle>
+        <CardDescription>
+          كل التغييرات التي قام بها المشرفون، مع القيم قبل التغيير وبعده. لا يمكن تعديل هذا السجل أو حذفه.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="md:col-span-2">
+            <Label>بحث</Label>
+            <div className="relative">
+              <Search className="absolute right-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="البريد الإلكتروني أو المعرف أو أي قيمة..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pr-10"
+              />
+            </div>
+          </div>
+          <div>
+            <Label>الجدول</Label>
+            <Select value={tableFilter} onValueChange={setTableFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">الكل</SelectItem>
+                {Object.entries(tableLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>العملية</Label>
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">الكل</SelectItem>
+                {Object.entries(actionLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label>من</Label>
+              <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>إلى</Label>
+              <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        {filteredEntries.length === 0 && !loading ? (
+          <p className="text-center text-muted-foreground py-8">
+            لا توجد سجلات مطابقة
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {filteredEntries.map((entry) => (
+              <div key={entry.id} className="border rounded-lg">
+                <button
+                  type="button"
+                  className="w-full flex items-center justify-between p-3 text-right"
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={entry.action === 'delete' || entry.action === 'delete_account' ? 'destructive' : entry.action === 'insert' ? 'default' : 'secondary'}>
+                        {actionLabels[entry.action] || entry.action}
+                      </Badge>
+                      <span className="font-medium">{tableLabels[entry.target_table] || entry.target_table}</span>
+                      {entry.target_id && (
+                        <span className="text-xs text-muted-foreground font-mono" dir="ltr">{entry.target_id.slice(0, 8)}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {entry.actor_email} - {new Date(entry.created_at).toLocaleString('ar-SA')}
+                    </p>
+                  </div>
+                  {expandedId === entry.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </button>
+
+                {expandedId === entry.id && (
+                  <div className="border-t p-3 overflow-x-auto">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-muted-foreground">
+                          <th className="text-right p-1">الحقل</th>
+                          <th className="text-right p-1">قبل</th>
+                          <th className="text-right p-1">بعد</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {changedFields(entry).map(({ key, before, after }) => (
+                          <tr key={key} className="border-t">
+                            <td className="p-1 font-mono" dir="ltr">{key}</td>
+                            <td className="p-1 font-mono break-all" dir="ltr">{formatValue(before)}</td>
+                            <td className="p-1 font-mono break-all" dir="ltr">{formatValue(after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {loading && (
+          <div className="text-center py-4">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        )}
+
+        {hasMore && !loading && (
+          <Button variant="outline" className="w-full" onClick={() => fetchEntries(entries.length)}>
+            تحميل المزيد
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminAuditLog;
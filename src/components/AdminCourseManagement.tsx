@@ -9,7 +9,9 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Edit, Trash2, Eye, EyeOff } from 'lucide-react';
+import { useReauthentication } from '@/hooks/useReauthentication';
+import { useAuth } from '@/hooks/useAuth';
+import { Plus, Edit, Trash2, Eye, EyeOff, Users } from 'lucide-react';
 
 interface Course {
   id: string;
@@ -27,8 +29,17 @@ interface Video {
   status: string;
 }
 
+interface Instructor {
+  user_id: string;
+  email: string;
+}
+
 const AdminCourseManagement = () => {
   const { toast } = useToast();
+  const { requireReauthentication } = useReauthentication();
+  const { profile } = useAuth();
+  // Instructors only see their assigned courses and cannot create or delete them
+  const isAdmin = profile?.role === 'admin';
   const [courses, setCourses] = useState<Course[]>([]);
   const [videos, setVideos] = useState<Video[]>([]);
   const [loading, setLoading] = useState(true);
@@ -36,6 +47,9 @@ const AdminCourseManagement = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedCourseVideos, setSelectedCourseVideos] = useState<string[]>([]);
   const [managingVideos, setManagingVideos] = useState<string | null>(null);
+  const [instructors, setInstructors] = useState<Instructor[]>([]);
+  const [selectedInstructors, setSelectedInstructors] = useState<string[]>([]);
+  const [managingInstructors, setManagingInstructors] = useState<string | null>(null);
 
   // Form state
   const [formData, setFormData] = useState({
@@ -48,15 +62,30 @@ const AdminCourseManagement = () => {
   useEffect(() => {
     fetchCourses();
     fetchVideos();
+    if (isAdmin) {
+      fetchInstructors();
+    }
   }, []);
 
   const fetchCourses = async () => {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('courses')
         .select('*')
         .order('created_at', { ascending: false });
 
+      if (!isAdmin && profile) {
+        const { data: assignments, error: assignmentsError } = await supabase
+          .from('course_instructors')
+          .select('course_id')
+          .eq('user_id', profile.user_id);
+
+        if (assignmentsError) throw assignmentsError;
+        query = query.in('id', assignments?.map(a => a.course_id) || []);
+      }
+
+      const { data, error } = await query;
+
       if (error) throw error;
       setCourses(data || []);
     } catch (error) {
@@ -86,6 +115,21 @@ const AdminCourseManagement = () => {
     }
   };
 
+  const fetchInstructors = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, email')
+        .eq('role', 'instructor')
+        .order('email');
+
+      if (error) throw error;
+      setInstructors(data || []);
+    } catch (error) {
+      console.error('Error fetching instructors:', error);
+    }
+  };
+
   const fetchCourseVideos = async (courseId: string) => {
     try {
       const { data, error } = await supabase
@@ -150,7 +194,7 @@ const AdminCourseManagement = () => {
   };
 
   const handleDelete = async (courseId: string) => {
-    if (!confirm('هل أنت متأكد من حذف هذا الكورس؟')) return;
+    if (!await requireReauthentication('سيتم حذف هذا الكورس نهائياً. أدخل كلمة المرور للتأكيد.')) return;
 
     try {
       const { error } = await supabase
@@ -218,13 +262,22 @@ const AdminCourseManagement = () => {
     if (!managingVideos) return;
 
     try {
-      // Remove all existing course videos
-      await supabase
+      // Remove only the videos that were unselected, so instructors never
+      // have to re-add rows they could not insert themselves
+      let removeQuery = supabase
         .from('course_videos')
         .delete()
         .eq('course_id', managingVideos);
 
-      // Add selected videos
+      if (selectedCourseVideos.length > 0) {
+        removeQuery = removeQuery.not('video_id', 'in', `(${selectedCourseVideos.join(',')})`);
+      }
+
+      const { error: removeError } = await removeQuery;
+
+      if (removeError) throw removeError;
+
+      // Add or reorder the selected videos
       if (selectedCourseVideos.length > 0) {
         const courseVideos = selectedCourseVideos.map((videoId, index) => ({
           course_id: managingVideos,
@@ -234,7 +287,7 @@ const AdminCourseManagement = () => {
 
         const { error } = await supabase
           .from('course_videos')
-          .insert(courseVideos);
+          .upsert(courseVideos, { onConflict: 'course_id,video_id' });
 
         if (error) throw error;
       }
@@ -256,6 +309,68 @@ const AdminCourseManagement = () => {
     }
   };
 
+  const handleManageInstructors = async (courseId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('course_instructors')
+        .select('user_id')
+        .eq('course_id', courseId);
+
+      if (error) throw error;
+      setSelectedInstructors(data?.map(ci => ci.user_id) || []);
+      setManagingInstructors(courseId);
+    } catch (error) {
+      console.error('Error fetching course instructors:', error);
+    }
+  };
+
+  const handleInstructorToggle = (userId: string) => {
+    setSelectedInstructors(prev =>
+      prev.includes(userId)
+        ? prev.filter(id => id !== userId)
+        : [...prev, userId]
+    );
+  };
+
+  const saveCourseInstructors = async () => {
+    if (!managingInstructors) return;
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('course_instructors')
+        .delete()
+        .eq('course_id', managingInstructors);
+
+      if (deleteError) throw deleteError;
+
+      if (selectedInstructors.length > 0) {
+        const { error } = await supabase
+          .from('course_instructors')
+          .insert(selectedInstructors.map(userId => ({
+            course_id: managingInstructors,
+            user_id: userId
+          })));
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "تم الحفظ",
+        description: "تم حفظ مدرسي الكورس بنجاح"
+      });
+
+      setManagingInstructors(null);
+      setSelectedInstructors([]);
+    } catch (error) {
+      console.error('Error saving course instructors:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في حفظ مدرسي الكورس",
+        variant: "destructive"
+      });
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       title: '',
@@ -291,12 +406,14 @@ const AdminCourseManagement = () => {
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold">إدارة الكورسات</h2>
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={resetForm}>
-              <Plus className="h-4 w-4 ml-1" />
-              كورس جديد
-            </Button>
-          </DialogTrigger>
+          {isAdmin && (
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="h-4 w-4 ml-1" />
+                كورس جديد
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="max-w-md">
             <DialogHeader>
               <DialogTitle>{editingCourse ? 'تعديل الكورس' : 'كورس جديد'}</DialogTitle>
@@ -419,6 +536,49 @@ const AdminCourseManagement = () => {
         </DialogContent>
       </Dialog>
 
+      {/* Instructor Assignment Dialog */}
+      <Dialog open={!!managingInstructors} onOpenChange={() => setManagingInstructors(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>مدرسو الكورس</DialogTitle>
+            <DialogDescription>
+              المدرسون المحددون يمكنهم تعديل هذا الكورس وإدارة فيديوهاته
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {instructors.length === 0 ? (
+              <p className="text-center text-muted-foreground py-4">
+                لا يوجد مدرسون. يمكنك تعيين دور المدرس من تبويب المستخدمين.
+              </p>
+            ) : (
+              instructors.map((instructor) => (
+                <label key={instructor.user_id} className="flex items-center gap-2 p-2 border rounded cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedInstructors.includes(instructor.user_id)}
+                    onChange={() => handleInstructorToggle(instructor.user_id)}
+                  />
+                  <span>{instructor.email}</span>
+                </label>
+              ))
+            )}
+          </div>
+
+          <div className="flex gap-2 pt-4">
+            <Button onClick={saveCourseInstructors} className="flex-1">
+              حفظ
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setManagingInstructors(null)}
+            >
+              إلغاء
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       <div className="grid gap-4">
         {courses.length === 0 ? (
           <Card>
@@ -456,6 +616,15 @@ const AdminCourseManagement = () => {
                     >
                       إدارة الفيديوهات
                     </Button>
+                    {isAdmin && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleManageInstructors(course.id)}
+                      >
+                        <Users className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button 
                       size="sm" 
                       variant="outline"
@@ -470,13 +639,15 @@ const AdminCourseManagement = () => {
                     >
                       <Edit className="h-4 w-4" />
                     </Button>
-                    <Button 
-                      size="sm" 
-                      variant="destructive"
-                      onClick={() => handleDelete(course.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                    {isAdmin && (
+                      <Button 
+                        size="sm" 
+                        variant="destructive"
+                        onClick={() => handleDelete(course.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -5,19 +5,39 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Users, Video, Upload, Shield, Settings, CheckCircle } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useImpersonation } from '@/hooks/useImpersonation';
+import { useNavigate } from 'react-router-dom';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AppRole, roleLabels } from '@/lib/roles';
+import { isSuspended } from '@/lib/suspension';
+import { Users, Video, Upload, Shield, Settings, CheckCircle, Gift, History, Eye } from 'lucide-react';
 import VideoUpload from '@/components/VideoUpload';
+import VideoUploadQueue from '@/components/VideoUploadQueue';
 import VideoManagement from '@/components/VideoManagement';
 import AdminCourseManagement from '@/components/AdminCourseManagement';
 import AdminSubscriptionManagement from '@/components/AdminSubscriptionManagement';
 import CoursePasswordGenerator from '@/components/CoursePasswordGenerator';
+import AdminVideoAccessManagement from '@/components/AdminVideoAccessManagement';
+import AdminPlaybackLimits from '@/components/AdminPlaybackLimits';
+import AdminRedemptionLockouts from '@/components/AdminRedemptionLockouts';
+import AdminAuditLog from '@/components/AdminAuditLog';
+import AdminDeletionRequests from '@/components/AdminDeletionRequests';
+import SecurityEventsList from '@/components/SecurityEventsList';
 
 interface Profile {
   id: string;
   user_id: string;
   email: string;
-  role: 'admin' | 'student';
+  role: AppRole;
   approved: boolean;
+  suspended_at: string | null;
+  suspended_until: string | null;
+  suspension_reason: string | null;
   created_at: string;
 }
 
@@ -26,21 +46,53 @@ interface VideoRecord {
   title: string;
   description: string;
   file_path: string;
-  status: 'processing' | 'ready' | 'disabled';
+  status: 'processing' | 'ready' | 'disabled' | 'failed';
   duration_seconds: number | null;
   created_at: string;
 }
 
+type DashboardTab = 'users' | 'upload' | 'manage' | 'courses' | 'subscriptions' | 'passwords' | 'grants' | 'audit';
+
+// Tabs each staff role can use; RLS enforces the same split on the server
+const dashboardTabs: { value: DashboardTab; label: string; icon: typeof Users; roles: AppRole[] }[] = [
+  { value: 'users', label: 'المستخدمين', icon: Users, roles: ['admin'] },
+  { value: 'upload', label: 'رفع فيديوهات', icon: Upload, roles: ['admin', 'instructor'] },
+  { value: 'manage', label: 'إدارة الفيديوهات', icon: Settings, roles: ['admin', 'instructor'] },
+  { value: 'courses', label: 'إدارة الكورسات', icon: Video, roles: ['admin', 'instructor'] },
+  { value: 'subscriptions', label: 'الاشتراكات', icon: Shield, roles: ['admin', 'support'] },
+  { value: 'passwords', label: 'كلمات المرور', icon: CheckCircle, roles: ['admin'] },
+  { value: 'grants', label: 'منح الفيديوهات', icon: Gift, roles: ['admin'] },
+  { value: 'audit', label: 'سجل التدقيق', icon: History, roles: ['admin'] },
+];
+
+// Full class names so Tailwind keeps them
+const tabGridCols = ['grid-cols-1', 'grid-cols-1', 'grid-cols-2', 'grid-cols-3', 'grid-cols-4', 'grid-cols-5', 'grid-cols-6', 'grid-cols-7', 'grid-cols-8'];
+
 const AdminDashboard = () => {
   const [users, setUsers] = useState<Profile[]>([]);
   const [videos, setVideos] = useState<VideoRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [suspendTarget, setSuspendTarget] = useState<Profile | null>(null);
+  const [suspendReason, setSuspendReason] = useState('');
+  const [suspendUntil, setSuspendUntil] = useState('');
+  const [suspending, setSuspending] = useState(false);
+  const [historyTarget, setHistoryTarget] = useState<Profile | null>(null);
   const { toast } = useToast();
+  const { profile } = useAuth();
+  const { startImpersonation } = useImpersonation();
+  const navigate = useNavigate();
+  const role = profile?.role ?? 'student';
+  const visibleTabs = dashboardTabs.filter(tab => tab.roles.includes(role));
+  const canUse = (tab: DashboardTab) => visibleTabs.some(visible => visible.value === tab);
 
   useEffect(() => {
-    fetchUsers();
-    fetchVideos();
+    if (canUse('users')) {
+      fetchUsers();
+      fetchVideos();
+    } else {
+      setLoading(false);
+    }
   }, []);
 
   const fetchUsers = async () => {
@@ -120,6 +172,117 @@ const AdminDashboard = () => {
     }
   };
 
+  const openSuspendDialog = (user: Profile) => {
+    setSuspendReason('');
+    setSuspendUntil('');
+    setSuspendTarget(user);
+  };
+
+  // Suspending also signs the user out everywhere (refresh tokens are revoked)
+  const suspendUser = async () => {
+    if (!suspendTarget || !suspendReason.trim()) return;
+
+    setSuspending(true);
+    const { error } = await supabase.functions.invoke('suspend-user', {
+      body: {
+        userId: suspendTarget.user_id,
+        action: 'suspend',
+        reason: suspendReason.trim(),
+        until: suspendUntil ? new Date(suspendUntil).toISOString() : null,
+      },
+    });
+    setSuspending(false);
+
+    if (error) {
+      toast({
+        title: 'خطأ',
+        description: 'فشل في إيقاف المستخدم',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'نجح',
+        description: 'تم إيقاف المستخدم وإنهاء جلساته',
+      });
+      setSuspendTarget(null);
+      fetchUsers();
+    }
+  };
+
+  const liftSuspension = async (userId: string) => {
+    const { error } = await supabase.functions.invoke('suspend-user', {
+      body: { userId, action: 'lift' },
+    });
+
+    if (error) {
+      toast({
+        title: 'خطأ',
+        description: 'فشل في رفع الإيقاف',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'نجح',
+        description: 'تم رفع الإيقاف عن المستخدم',
+      });
+      fetchUsers();
+    }
+  };
+
+  const updateRole = async (userId: string, newRole: AppRole) => {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ role: newRole })
+      .eq('user_id', userId);
+
+    if (error) {
+      toast({
+        title: 'خطأ',
+        description: 'فشل في تغيير دور المستخدم',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'نجح',
+        description: `تم تغيير الدور إلى ${roleLabels[newRole]}`,
+      });
+      fetchUsers();
+    }
+  };
+
+  const resetDevices = async (userId: string) => {
+    if (!confirm('هل أنت متأكد من إعادة تعيين أجهزة هذا المستخدم؟ سيتم إيقاف أي تشغيل حالي.')) return;
+
+    const { error } = await supabase.rpc('reset_user_devices', { _user_id: userId });
+
+    if (error) {
+      toast({
+        title: 'خطأ',
+        description: 'فشل في إعادة تعيين الأجهزة',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'نجح',
+        description: 'تمت إعادة تعيين أجهزة المستخدم',
+      });
+    }
+  };
+
+  const viewAsStudent = async (student: Profile) => {
+    const { error } = await startImpersonation({ user_id: student.user_id, email: student.email });
+
+    if (error) {
+      toast({
+        title: 'خطأ',
+        description: 'فشل في بدء المعاينة كطالب',
+        variant: 'destructive',
+      });
+    } else {
+      navigate('/');
+    }
+  };
+
   const handleUploadComplete = () => {
     setRefreshTrigger(prev => prev + 1);
     fetchVideos(); // Refresh videos list
@@ -154,151 +317,285 @@ const AdminDashboard = () => {
 
   return (
     <div className="space-y-6">
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        <Card className="card-shadow hover-lift">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">إجمالي المستخدمين</CardTitle>
-            <Users className="h-4 w-4 text-primary" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-primary">{users.length}</div>
-          </CardContent>
-        </Card>
-        
-        <Card className="card-shadow hover-lift">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">في انتظار الموافقة</CardTitle>
-            <Shield className="h-4 w-4 text-primary" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-primary">
-              {users.filter(u => !u.approved && u.role === 'student').length}
-            </div>
-          </CardContent>
-        </Card>
-        
-        <Card className="card-shadow hover-lift">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">إجمالي الفيديوهات</CardTitle>
-            <Video className="h-4 w-4 text-primary" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-primary">{videos.length}</div>
-          </CardContent>
-        </Card>
-        
-        <Card className="card-shadow hover-lift">
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">الفيديوهات الجاهزة</CardTitle>
-            <CheckCircle className="h-4 w-4 text-primary" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-primary">
-              {videos.filter(v => v.status === 'ready').length}
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-
-      <Tabs defaultValue="users" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-6">
-          <TabsTrigger value="users" className="flex items-center gap-2">
-            <Users className="h-4 w-4" />
-            المستخدمين
-          </TabsTrigger>
-          <TabsTrigger value="upload" className="flex items-center gap-2">
-            <Upload className="h-4 w-4" />
-            رفع فيديوهات
-          </TabsTrigger>
-          <TabsTrigger value="manage" className="flex items-center gap-2">
-            <Settings className="h-4 w-4" />
-            إدارة الفيديوهات
-          </TabsTrigger>
-          <TabsTrigger value="courses" className="flex items-center gap-2">
-            <Video className="h-4 w-4" />
-            إدارة الكورسات
-          </TabsTrigger>
-          <TabsTrigger value="subscriptions" className="flex items-center gap-2">
-            <Shield className="h-4 w-4" />
-            الاشتراكات
-          </TabsTrigger>
-          <TabsTrigger value="passwords" className="flex items-center gap-2">
-            <CheckCircle className="h-4 w-4" />
-            كلمات المرور
-          </TabsTrigger>
-        </TabsList>
-        
-        <TabsContent value="users" className="space-y-4">
-          <Card className="card-shadow">
-            <CardHeader>
-              <CardTitle>إدارة المستخدمين</CardTitle>
-              <CardDescription>
-                موافقة أو رفض وصول المستخدمين للمنصة
-              </CardDescription>
+      {canUse('users') && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="card-shadow hover-lift">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">إجمالي المستخدمين</CardTitle>
+              <Users className="h-4 w-4 text-primary" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-primary">{users.length}</div>
+            </CardContent>
+          </Card>
+          
+          <Card className="card-shadow hover-lift">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">في انتظار الموافقة</CardTitle>
+              <Shield className="h-4 w-4 text-primary" />
             </CardHeader>
             <CardContent>
-              <div className="space-y-4">
-                {users.map((user) => (
-                  <div key={user.id} className="flex items-center justify-between p-4 border rounded-lg">
-                    <div className="space-y-1">
-                      <p className="font-medium">{user.email}</p>
-                      <div className="flex items-center gap-2">
-                        <Badge variant={user.role === 'admin' ? 'default' : 'secondary'}>
-                          {user.role === 'admin' ? 'مسؤول' : 'طالب'}
-                        </Badge>
-                        <Badge variant={user.approved ? 'default' : 'outline'}>
-                          {user.approved ? 'معتمد' : 'في الانتظار'}
-                        </Badge>
+              <div className="text-2xl font-bold text-primary">
+                {users.filter(u => !u.approved && u.role === 'student').length}
+              </div>
+            </CardContent>
+          </Card>
+          
+          <Card className="card-shadow hover-lift">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">إجمالي الفيديوهات</CardTitle>
+              <Video className="h-4 w-4 text-primary" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-primary">{videos.length}</div>
+            </CardContent>
+          </Card>
+          
+          <Card className="card-shadow hover-lift">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">الفيديوهات الجاهزة</CardTitle>
+              <CheckCircle className="h-4 w-4 text-primary" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-primary">
+                {videos.filter(v => v.status === 'ready').length}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Tabs defaultValue={visibleTabs[0]?.value} className="space-y-4">
+        <TabsList className={`grid w-full ${tabGridCols[visibleTabs.length]}`}>
+          {visibleTabs.map(({ value, label, icon: Icon }) => (
+            <TabsTrigger key={value} value={value} className="flex items-center gap-2">
+              <Icon className="h-4 w-4" />
+              {label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+        
+        {canUse('users') && (
+          <TabsContent value="users" className="space-y-4">
+            <AdminPlaybackLimits />
+
+            <AdminDeletionRequests onAccountDeleted={fetchUsers} />
+
+            <Card className="card-shadow">
+              <CardHeader>
+                <CardTitle>إدارة المستخدمين</CardTitle>
+                <CardDescription>
+                  موافقة أو رفض وصول المستخدمين للمنصة
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {users.map((user) => (
+                    <div key={user.id} className="flex items-center justify-between p-4 border rounded-lg">
+                      <div className="space-y-1">
+                        <p className="font-medium">{user.email}</p>
+                        <div className="flex items-center gap-2">
+                          <Badge variant={user.role === 'student' ? 'secondary' : 'default'}>
+                            {roleLabels[user.role]}
+                          </Badge>
+                          <Badge variant={user.approved ? 'default' : 'outline'}>
+                            {user.approved ? 'معتمد' : 'في الانتظار'}
+                          </Badge>
+                          {isSuspended(user) && (
+                            <Badge variant="destructive">
+                              {user.suspended_until
+                                ? `موقوف حتى ${new Date(user.suspended_until).toLocaleDateString('ar-SA')}`
+                                : 'موقوف'}
+                            </Badge>
+                          )}
+                        </div>
+                        {isSuspended(user) && user.suspension_reason && (
+                          <p className="text-xs text-muted-foreground">السبب: {user.suspension_reason}</p>
+                        )}
                       </div>
-                    </div>
-                    {user.role === 'student' && (
                       <div className="flex gap-2">
-                        {!user.approved ? (
-                          <Button
-                            onClick={() => approveUser(user.user_id)}
-                            size="sm"
-                            className="hover-lift"
-                          >
-                            موافقة
-                          </Button>
-                        ) : (
-                          <Button
-                            onClick={() => rejectUser(user.user_id)}
-                            variant="outline"
-                            size="sm"
-                            className="hover-lift"
-                          >
-                            إلغاء الوصول
-                          </Button>
+                        {user.user_id !== profile?.user_id && (
+                          <Select value={user.role} onValueChange={(value) => updateRole(user.user_id, value as AppRole)}>
+                            <SelectTrigger className="w-32 h-9">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(roleLabels) as AppRole[]).map((value) => (
+                                <SelectItem key={value} value={value}>{roleLabels[value]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {user.role === 'student' && (
+                          <div className="flex gap-2">
+                            {!user.approved ? (
+                              <Button
+                                onClick={() => approveUser(user.user_id)}
+                                size="sm"
+                                className="hover-lift"
+                              >
+                                موافقة
+                              </Button>
+                            ) : (
+                              <Button
+                                onClick={() => rejectUser(user.user_id)}
+                                variant="outline"
+                                size="sm"
+                                className="hover-lift"
+                              >
+                                إلغاء الوصول
+                              </Button>
+                            )}
+                            <Button
+                              onClick={() => resetDevices(user.user_id)}
+                              variant="outline"
+                              size="sm"
+                              className="hover-lift"
+                            >
+                              إعادة تعيين الأجهزة
+                            </Button>
+                            {isSuspended(user) ? (
+                              <Button
+                                onClick={() => liftSuspension(user.user_id)}
+                                variant="outline"
+                                size="sm"
+                                className="hover-lift"
+                              >
+                                رفع الإيقاف
+                              </Button>
+                            ) : (
+                              <Button
+                                onClick={() => openSuspendDialog(user)}
+                                variant="destructive"
+                                size="sm"
+                                className="hover-lift"
+                              >
+                                إيقاف
+                              </Button>
+                            )}
+                            <Button
+                              onClick={() => viewAsStudent(user)}
+                              variant="outline"
+                              size="sm"
+                              className="hover-lift"
+                            >
+                              <Eye className="h-4 w-4 ml-1" />
+                              عرض كطالب
+                            </Button>
+                            <Button
+                              onClick={() => setHistoryTarget(user)}
+                              variant="outline"
+                              size="sm"
+                              className="hover-lift"
+                            >
+                              <History className="h-4 w-4 ml-1" />
+                              سجل الدخول
+                            </Button>
+                          </div>
                         )}
                       </div>
-                    )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Dialog open={!!suspendTarget} onOpenChange={(open) => !open && setSuspendTarget(null)}>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>إيقاف المستخدم</DialogTitle>
+                  <DialogDescription>
+                    سيتم إنهاء جلسات {suspendTarget?.email} ومنعه من المنصة. سيرى المستخدم السبب عند تسجيل الدخول.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="suspend-reason">السبب</Label>
+                    <Textarea
+                      id="suspend-reason"
+                      value={suspendReason}
+                      onChange={(e) => setSuspendReason(e.target.value)}
+                      placeholder="مثال: مشاركة الحساب مع أشخاص آخرين"
+                    />
                   </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        </TabsContent>
+                  <div className="space-y-2">
+                    <Label htmlFor="suspend-until">حتى تاريخ (اتركه فارغاً للإيقاف الدائم)</Label>
+                    <Input
+                      id="suspend-until"
+                      type="datetime-local"
+                      value={suspendUntil}
+                      onChange={(e) => setSuspendUntil(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setSuspendTarget(null)}>
+                    إلغاء
+                  </Button>
+                  <Button variant="destructive" onClick={suspendUser} disabled={!suspendReason.trim() || suspending}>
+                    {suspending ? 'جاري الإيقاف...' : 'إيقاف'}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+
+            <Dialog open={!!historyTarget} onOpenChange={(open) => !open && setHistoryTarget(null)}>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>سجل الدخول</DialogTitle>
+                  <DialogDescription>
+                    عمليات الدخول والخروج والمحاولات الفاشلة لحساب {historyTarget?.email}
+                  </DialogDescription>
+                </DialogHeader>
+                {historyTarget && <SecurityEventsList userId={historyTarget.user_id} />}
+              </DialogContent>
+            </Dialog>
+          </TabsContent>
+        )}
         
-        <TabsContent value="upload" className="space-y-4">
-          <VideoUpload onUploadComplete={handleUploadComplete} />
-        </TabsContent>
+        {canUse('upload') && (
+          <TabsContent value="upload" className="space-y-4">
+            <VideoUpload onUploadComplete={handleUploadComplete} />
+            <VideoUploadQueue onUploadComplete={handleUploadComplete} />
+          </TabsContent>
+        )}
+
+        {canUse('manage') && (
+          <TabsContent value="manage" className="space-y-4">
+            <VideoManagement refreshTrigger={refreshTrigger} />
+          </TabsContent>
+        )}
+
+        {canUse('courses') && (
+          <TabsContent value="courses" className="space-y-4">
+            <AdminCourseManagement />
+          </TabsContent>
+        )}
 
-        <TabsContent value="manage" className="space-y-4">
-          <VideoManagement refreshTrigger={refreshTrigger} />
-        </TabsContent>
+        {canUse('subscriptions') && (
+          <TabsContent value="subscriptions" className="space-y-4">
+            <AdminSubscriptionManagement />
+          </TabsContent>
+        )}
 
-        <TabsContent value="courses" className="space-y-4">
-          <AdminCourseManagement />
-        </TabsContent>
+        {canUse('passwords') && (
+          <TabsContent value="passwords" className="space-y-4">
+            <CoursePasswordGenerator />
+            <AdminRedemptionLockouts />
+          </TabsContent>
+        )}
 
-        <TabsContent value="subscriptions" className="space-y-4">
-          <AdminSubscriptionManagement />
-        </TabsContent>
+        {canUse('grants') && (
+          <TabsContent value="grants" className="space-y-4">
+            <AdminVideoAccessManagement />
+          </TabsContent>
+        )}
 
-        <TabsContent value="passwords" className="space-y-4">
-          <CoursePasswordGenerator />
-        </TabsContent>
+        {canUse('audit') && (
+          <TabsContent value="audit" className="space-y-4">
+            <AdminAuditLog />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useReauthentication } from '@/hooks/useReauthentication';
+import { UserX } from 'lucide-react';
+
+interface DeletionRequest {
+  id: string;
+  user_id: string;
+  reason: string | null;
+  status: string;
+  created_at: string;
+  email: string;
+}
+
+interface AdminDeletionRequestsProps {
+  onAccountDeleted?: () => void;
+}
+
+const AdminDeletionRequests = ({ onAccountDeleted }: AdminDeletionRequestsProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { requireReauthentication } = useReauthentication();
+  const [requests, setRequests] = useState<DeletionRequest[]>([]);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const fetchRequests = async () => {
+    try {
+      // Approved requests only remain when the deletion failed half-way
+      const { data: requestsData, error: requestsError } = await supabase
+        .from('account_deletion_requests')
+        .select('*')
+        .in('status', ['pending', 'approved'])
+        .order('created_at', { ascending: true });
+
+      if (requestsError) throw requestsError;
+      if (!requestsData || requestsData.length === 0) {
+        setRequests([]);
+        return;
+      }
+
+      const { data: profilesData, error: profilesError } = await supabase
+        .from('profiles')
+        .select('user_id, email')
+        .in('user_id', requestsData.map(request => request.user_id));
+
+      if (profilesError) throw profilesError;
+
+      setRequests(requestsData.map(request => ({
+        ...request,
+        email: profilesData?.find(p => p.user_id === request.user_id)?.email || 'غير معروف'
+      })));
+    } catch (error) {
+      console.error('Error fetching deletion requests:', error);
+    }
+  };
+
+  const confirmDeletion = async (request: DeletionRequest) => {
+    if (!await requireReauthentication(`سيتم حذف حساب ${request.email} نهائياً مع الاشتراكات والفيديوهات الممنوحة وإيصالات الدفع ولا يمكن التراجع. أدخل كلمة المرور للتأكيد.`)) return;
+
+    setProcessingId(request.id);
+    try {
+      const { error } = await supabase.functions.invoke('delete-account', {
+        body: { requestId: request.id },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "تم الحذف",
+        description: `تم حذف حساب ${request.email}`
+      });
+
+      fetchRequests();
+      onAccountDeleted?.();
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في حذف الحساب",
+        variant: "destructive"
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const rejectRequest = async (requestId: string) => {
+    setProcessingId(requestId);
+    try {
+      const { error } = await supabase
+        .from('account_deletion_requests')
+        .update({ status: 'rejected', reviewed_by: user?.id, reviewed_at: new Date().toISOString() })
+        .eq('id', requestId);
+
+      if (error) throw error;
+
+      toast({
+        title: "تم الرفض",
+        description: "تم رفض طلب حذف الحساب"
+      });
+
+      fetchRequests();
+    } catch (error) {
+      console.error('Error rejecting deletion request:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في رفض الطلب",
+        variant: "destructive"
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card className="card-shadow border-destructive/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserX className="h-5 w-5" />
+          طلبات حذف الحسابات
+        </CardTitle>
+        <CardDescription>
+          يحذف التأكيد الحساب والاشتراكات والفيديوهات الممنوحة وإيصالات الدفع نهائياً
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {requests.map((request) => (
+            <div key={request.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{request.email}</p>
+                  {request.status === 'approved' && <Badge variant="destructive">فشل الحذف</Badge>}
+                </div>
+                {request.reason && (
+                  <p className="text-sm text-muted-foreground">{request.reason}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {new Date(request.created_at).toLocaleString('ar-SA')}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => confirmDeletion(request)}
+                  disabled={processingId === request.id}
+                >
+                  {request.status === 'approved' ? 'إعادة المحاولة' : 'تأكيد الحذف'}
+                </Button>
+                {request.status === 'pending' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => rejectRequest(request.id)}
+                    disabled={processingId === request.id}
+                  >
+                    رفض
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminDeletionRequests;
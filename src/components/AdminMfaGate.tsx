@@ -0,0 +1,334 @@
+import { useState, useEffect, ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { supabase } from '@/integrations/supabase/client';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { ShieldCheck, Copy, KeyRound, RefreshCw } from 'lucide-react';
+
+type MfaStep = 'loading' | 'error' | 'enroll' | 'verify' | 'recovery' | 'codes' | 'verified';
+
+interface Enrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Ten codes of the form XXXXX-XXXXX from a CSPRNG (32 symbols, no modulo bias)
+const generateRecoveryCodes = () => {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = Array.from(crypto.getRandomValues(new Uint8Array(10)), byte => chars.charAt(byte % chars.length)).join('');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+};
+
+interface AdminMfaGateProps {
+  children: ReactNode;
+}
+
+// Admins must pass TOTP (aal2) before the dashboard renders; the database
+// refuses admin rights to sessions that have not.
+const AdminMfaGate = ({ children }: AdminMfaGateProps) => {
+  const { signOut } = useAuth();
+  const { toast } = useToast();
+  const [step, setStep] = useState<MfaStep>('loading');
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    checkAssurance();
+  }, []);
+
+  const checkAssurance = async () => {
+    setStep('loading');
+    try {
+      const { data: aal, error: aalError } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+      if (aalError) throw aalError;
+
+      if (aal.currentLevel === 'aal2') {
+        setStep('verified');
+        return;
+      }
+
+      const { data: factors, error: factorsError } = await supabase.auth.mfa.listFactors();
+      if (factorsError) throw factorsError;
+
+      const verifiedFactor = factors.totp[0];
+      if (verifiedFactor) {
+        setFactorId(verifiedFactor.id);
+        setStep('verify');
+      } else {
+        await startEnrollment();
+      }
+    } catch (error) {
+      console.error('Error checking MFA status:', error);
+      setStep('error');
+      toast({
+        title: "خطأ",
+        description: "فشل في التحقق من حالة المصادقة الثنائية",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const startEnrollment = async () => {
+    // Drop half-finished enrollments so a new QR code can be issued
+    const { data: factors } = await supabase.auth.mfa.listFactors();
+    for (const factor of factors?.all ?? []) {
+      if (factor.status === 'unverified') {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({
+      factorType: 'totp',
+      friendlyName: 'تطبيق المصادقة',
+    });
+
+    if (error) throw error;
+
+    setEnrollment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+    setFactorId(data.id);
+    setCode('');
+    setStep('enroll');
+  };
+
+  // onComplete fires before the typed value reaches state, so it passes it in
+  const verifyCode = async (value = code) => {
+    if (!factorId || value.length !== 6) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: value });
+      if (error) throw error;
+
+      if (step === 'enroll') {
+        // Fresh authenticator: issue recovery codes while the session is aal2
+        const codes = generateRecoveryCodes();
+        const { error: codesError } = await supabase.rpc('replace_mfa_recovery_codes', { _codes: codes });
+        if (codesError) throw codesError;
+
+        setRecoveryCodes(codes);
+        setStep('codes');
+      } else {
+        setStep('verified');
+      }
+    } catch (error) {
+      console.error('Error verifying TOTP code:', error);
+      setCode('');
+      toast({
+        title: "خطأ",
+        description: "رمز التحقق غير صحيح",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const redeemRecoveryCode = async () => {
+    if (!recoveryCode.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.functions.invoke('mfa-recovery', {
+        body: { code: recoveryCode.trim() },
+      });
+
+      if (error) {
+        const details = error instanceof FunctionsHttpError
+          ? await error.context.json().catch(() => null)
+          : null;
+
+        if (details?.error === 'too_many_attempts') {
+          toast({
+            title: "خطأ",
+            description: `محاولات خاطئة كثيرة. يمكنك المحاولة مرة أخرى بعد ${new Date(details.lockedUntil).toLocaleTimeString('ar-SA')}`,
+            variant: "destructive"
+          });
+          return;
+        }
+
+        if (details?.error === 'invalid_code') {
+          toast({
+            title: "خطأ",
+            description: "رمز الاسترداد غير صحيح أو مستخدم من قبل",
+            variant: "destructive"
+          });
+          return;
+        }
+
+        throw error;
+      }
+
+      toast({
+        title: "تم الاسترداد",
+        description: "قم بربط تطبيق مصادقة جديد لإكمال الدخول"
+      });
+
+      setRecoveryCode('');
+      await supabase.auth.refreshSession();
+      await startEnrollment();
+    } catch (error) {
+      console.error('Error using recovery code:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في استخدام رمز الاسترداد",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const copyRecoveryCodes = () => {
+    navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast({
+      title: "تم النسخ",
+      description: "تم نسخ رموز الاسترداد"
+    });
+  };
+
+  if (step === 'verified') {
+    return <>{children}</>;
+  }
+
+  if (step === 'loading') {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="text-muted-foreground mt-2">جاري التحقق من المصادقة الثنائية...</p>
+      </div>
+    );
+  }
+
+  if (step === 'error') {
+    return (
+      <div className="text-center py-8 space-y-4">
+        <p className="text-muted-foreground">تعذر التحقق من حالة المصادقة الثنائية</p>
+        <div className="flex justify-center gap-2">
+          <Button onClick={checkAssurance}>
+            <RefreshCw className="h-4 w-4 ml-1" />
+            إعادة المحاولة
+          </Button>
+          <Button variant="outline" onClick={signOut}>
+            تسجيل الخروج
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const otpInput = (
+    <div className="flex justify-center" dir="ltr">
+      <InputOTP maxLength={6} value={code} onChange={setCode} onComplete={verifyCode} disabled={submitting}>
+        <InputOTPGroup>
+          {[0, 1, 2, 3, 4, 5].map(index => (
+            <InputOTPSlot key={index} index={index} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    </div>
+  );
+
+  return (
+    <div className="flex justify-center">
+      <Card className="w-full max-w-md card-shadow">
+        <CardHeader className="text-center">
+          <CardTitle className="flex items-center justify-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            المصادقة الثنائية
+          </CardTitle>
+          <CardDescription>
+            {step === 'enroll' && 'حسابات المسؤولين تتطلب المصادقة الثنائية. امسح الرمز بتطبيق المصادقة ثم أدخل الرمز المكون من 6 أرقام.'}
+            {step === 'verify' && 'أدخل الرمز المكون من 6 أرقام من تطبيق المصادقة.'}
+            {step === 'recovery' && 'أدخل أحد رموز الاسترداد التي حفظتها عند تفعيل المصادقة الثنائية.'}
+            {step === 'codes' && 'احفظ رموز الاسترداد في مكان آمن. كل رمز يستخدم مرة واحدة ولن تظهر مرة أخرى.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {step === 'enroll' && enrollment && (
+            <>
+              <div className="flex justify-center bg-white p-4 rounded-lg">
+                <img src={enrollment.qrCode} alt="QR code" className="h-48 w-48" />
+              </div>
+              <p className="text-xs text-center text-muted-foreground">
+                أو أدخل المفتاح يدوياً: <span className="font-mono break-all" dir="ltr">{enrollment.secret}</span>
+              </p>
+              {otpInput}
+              <Button onClick={() => verifyCode()} className="w-full" disabled={code.length !== 6 || submitting}>
+                تفعيل
+              </Button>
+            </>
+          )}
+
+          {step === 'verify' && (
+            <>
+              {otpInput}
+              <Button onClick={() => verifyCode()} className="w-full" disabled={code.length !== 6 || submitting}>
+                تحقق
+              </Button>
+              <Button variant="link" className="w-full" onClick={() => setStep('recovery')}>
+                <KeyRound className="h-4 w-4 ml-1" />
+                فقدت تطبيق المصادقة؟ استخدم رمز استرداد
+              </Button>
+            </>
+          )}
+
+          {step === 'recovery' && (
+            <>
+              <Input
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value.toUpperCase())}
+                placeholder="XXXXX-XXXXX"
+                className="font-mono text-center"
+                dir="ltr"
+              />
+              <Button onClick={redeemRecoveryCode} className="w-full" disabled={!recoveryCode.trim() || submitting}>
+                استخدام رمز الاسترداد
+              </Button>
+              <Button variant="link" className="w-full" onClick={() => setStep('verify')}>
+                العودة
+              </Button>
+            </>
+          )}
+
+          {step === 'codes' && (
+            <>
+              <div className="grid grid-cols-2 gap-2 p-4 border rounded-lg bg-muted/50 font-mono text-center" dir="ltr">
+                {recoveryCodes.map(recovery => (
+                  <span key={recovery}>{recovery}</span>
+                ))}
+              </div>
+              <Button variant="outline" className="w-full" onClick={copyRecoveryCodes}>
+                <Copy className="h-4 w-4 ml-1" />
+                نسخ الرموز
+              </Button>
+              <Button className="w-full" onClick={() => setStep('verified')}>
+                حفظت الرموز، متابعة
+              </Button>
+            </>
+          )}
+
+          {step !== 'codes' && (
+            <Button variant="outline" className="w-full" onClick={signOut}>
+              تسجيل الخروج
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminMfaGate;
@@ -0,0 +1,120 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Monitor } from 'lucide-react';
+
+const AdminPlaybackLimits = () => {
+  const { toast } = useToast();
+  const [maxDevices, setMaxDevices] = useState('2');
+  const [maxStreams, setMaxStreams] = useState('1');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchLimits();
+  }, []);
+
+  const fetchLimits = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('key, value')
+        .in('key', ['max_devices_per_user', 'max_concurrent_streams']);
+
+      if (error) throw error;
+
+      data?.forEach(setting => {
+        if (setting.key === 'max_devices_per_user') setMaxDevices(String(setting.value));
+        if (setting.key === 'max_concurrent_streams') setMaxStreams(String(setting.value));
+      });
+    } catch (error) {
+      console.error('Error fetching playback limits:', error);
+    }
+  };
+
+  const saveLimits = async () => {
+    const devices = parseInt(maxDevices);
+    const streams = parseInt(maxStreams);
+
+    if (!(devices > 0) || !(streams > 0)) {
+      toast({
+        title: "خطأ",
+        description: "يجب أن تكون القيم أرقاماً أكبر من صفر",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert([
+          { key: 'max_devices_per_user', value: devices },
+          { key: 'max_concurrent_streams', value: streams }
+        ]);
+
+      if (error) throw error;
+
+      toast({
+        title: "تم الحفظ",
+        description: "تم تحديث حدود التشغيل"
+      });
+    } catch (error) {
+      console.error('Error saving playback limits:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في حفظ حدود التشغيل",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="card-shadow">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="h-5 w-5" />
+          حدود الأجهزة والتشغيل
+        </CardTitle>
+        <CardDescription>
+          الحد الأقصى للأجهزة لكل طالب (كل جهاز غير موقوف شاهد منه خلال آخر 30 يوماً) وعدد الفيديوهات التي يمكن تشغيلها في نفس الوقت
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-end gap-4">
+          <div className="flex-1">
+            <Label htmlFor="max-devices">أقصى عدد أجهزة</Label>
+            <Input
+              id="max-devices"
+              type="number"
+              min="1"
+              value={maxDevices}
+              onChange={(e) => setMaxDevices(e.target.value)}
+            />
+          </div>
+          <div className="flex-1">
+            <Label htmlFor="max-streams">أقصى تشغيل متزامن</Label>
+            <Input
+              id="max-streams"
+              type="number"
+              min="1"
+              value={maxStreams}
+              onChange={(e) => setMaxStreams(e.target.value)}
+            />
+          </div>
+          <Button onClick={saveLimits} disabled={saving}>
+            حفظ
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminPlaybackLimits;
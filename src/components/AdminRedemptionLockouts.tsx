@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ShieldAlert, Unlock } from 'lucide-react';
+
+interface RedemptionLockout {
+  id: string;
+  user_id: string;
+  ip_address: string | null;
+  scope: string;
+  failed_attempts: number;
+  locked_at: string;
+  locked_until: string;
+  email: string;
+}
+
+const AdminRedemptionLockouts = () => {
+  const { toast } = useToast();
+  const [lockouts, setLockouts] = useState<RedemptionLockout[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchLockouts();
+  }, []);
+
+  const fetchLockouts = async () => {
+    try {
+      const { data: lockoutsData, error: lockoutsError } = await supabase
+        .from('redemption_lockouts')
+        .select('*')
+        .order('locked_at', { ascending: false })
+        .limit(100);
+
+      if (lockoutsError) throw lockoutsError;
+      if (!lockoutsData || lockoutsData.length === 0) {
+        setLockouts([]);
+        return;
+      }
+
+      const userIds = [...new Set(lockoutsData.map(lockout => lockout.user_id))];
+
+      const { data: profilesData, error: profilesError } = await supabase
+        .from('profiles')
+        .select('user_id, email')
+        .in('user_id', userIds);
+
+      if (profilesError) throw profilesError;
+
+      setLockouts(lockoutsData.map(lockout => ({
+        ...lockout,
+        email: profilesData?.find(p => p.user_id === lockout.user_id)?.email || 'غير معروف'
+      })));
+    } catch (error) {
+      console.error('Error fetching redemption lockouts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const liftLockout = async (lockoutId: string) => {
+    try {
+      const { error } = await supabase
+        .from('redemption_lockouts')
+        .update({ locked_until: new Date().toISOString() })
+        .eq('id', lockoutId);
+
+      if (error) throw error;
+
+      toast({
+        title: "تم رفع القفل",
+        description: "يمكن للطالب المحاولة مرة أخرى"
+      });
+
+      fetchLockouts();
+    } catch (error) {
+      console.error('Error lifting lockout:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في رفع القفل",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          محاولات التفعيل المحظورة
+        </CardTitle>
+        <CardDescription>
+          الحسابات وعناوين IP التي تم إيقافها مؤقتاً بسبب كثرة المحاولات الخاطئة لكلمات المرور
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : lockouts.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            لا توجد محاولات محظورة
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {lockouts.map((lockout) => {
+              const active = new Date(lockout.locked_until) > new Date();
+              return (
+                <div key={lockout.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium">{lockout.email}</p>
+                      <Badge variant="outline">
+                        {lockout.scope === 'ip' ? 'حظر IP' : 'حظر الحساب'}
+                      </Badge>
+                      {active && <Badge variant="destructive">نشط</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {lockout.failed_attempts} محاولات خاطئة
+                      {lockout.ip_address && <> - IP: <span dir="ltr">{lockout.ip_address}</span></>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      من {new Date(lockout.locked_at).toLocaleString('ar-SA')} حتى {new Date(lockout.locked_until).toLocaleString('ar-SA')}
+                    </p>
+                  </div>
+                  {active && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => liftLockout(lockout.id)}
+                    >
+                      <Unlock className="h-4 w-4 ml-1" />
+                      رفع القفل
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminRedemptionLockouts;
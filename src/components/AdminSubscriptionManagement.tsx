@@ -7,6 +7,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import { CheckCircle, XCircle, Clock, Search, Eye, Calendar } from 'lucide-react';
 
 interface Subscription {
@@ -30,6 +31,9 @@ interface Subscription {
 
 const AdminSubscriptionManagement = () => {
   const { toast } = useToast();
+  const { profile } = useAuth();
+  // Support staff review requests but cannot delete subscriptions
+  const isAdmin = profile?.role === 'admin';
   const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
@@ -113,31 +117,25 @@ const AdminSubscriptionManagement = () => {
       const endDate = new Date();
       endDate.setMonth(endDate.getMonth() + subscription.courses.duration_months);
 
-      const { error: updateError } = await supabase
-        .from('subscriptions')
-        .update({
-          status: 'active',
-          start_date: startDate.toISOString(),
-          end_date: endDate.toISOString()
-        })
-        .eq('id', subscription.id);
-
-      if (updateError) throw updateError;
-
-      // Delete payment receipt after approval
+      // Delete the payment receipt while the request is still pending;
+      // support may only remove receipts of pending requests
       if (subscription.payment_proof) {
         await supabase.storage
           .from('payment-receipts')
           .remove([subscription.payment_proof]);
       }
 
-      // Update local state
-      const { error: finalUpdateError } = await supabase
+      const { error: updateError } = await supabase
         .from('subscriptions')
-        .update({ payment_proof: null })
+        .update({
+          status: 'active',
+          start_date: startDate.toISOString(),
+          end_date: endDate.toISOString(),
+          payment_proof: null
+        })
         .eq('id', subscription.id);
 
-      if (finalUpdateError) throw finalUpdateError;
+      if (updateError) throw updateError;
 
       toast({
         title: "تم التفعيل",
@@ -487,7 +485,7 @@ const AdminSubscriptionManagement = () => {
                       </Button>
                     )}
 
-                    {(subscription.status === 'expired' || subscription.status === 'pending') && (
+                    {isAdmin && (subscription.status === 'expired' || subscription.status === 'pending') && (
                       <Button 
                         size="sm" 
                         variant="destructive"
@@ -0,0 +1,449 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Search, Trash2, Calendar } from 'lucide-react';
+
+type GrantType = 'gift' | 'makeup' | 'trial';
+
+interface VideoGrant {
+  id: string;
+  user_id: string;
+  video_id: string;
+  grant_type: GrantType;
+  granted_at: string;
+  expires_at: string | null;
+  note: string | null;
+  profiles: {
+    email: string;
+  };
+  videos: {
+    title: string;
+  };
+}
+
+interface Student {
+  user_id: string;
+  email: string;
+}
+
+interface Video {
+  id: string;
+  title: string;
+}
+
+const grantTypeLabels: Record<GrantType, string> = {
+  gift: 'هدية',
+  makeup: 'تعويض حصة',
+  trial: 'تجربة',
+};
+
+const AdminVideoAccessManagement = () => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [grants, setGrants] = useState<VideoGrant[]>([]);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  // Form state
+  const [formData, setFormData] = useState({
+    user_id: '',
+    video_id: '',
+    grant_type: 'gift' as GrantType,
+    expires_at: '',
+    note: ''
+  });
+
+  useEffect(() => {
+    fetchGrants();
+    fetchStudents();
+    fetchVideos();
+  }, []);
+
+  const fetchGrants = async () => {
+    try {
+      const { data: grantsData, error: grantsError } = await supabase
+        .from('video_access')
+        .select('*')
+        .order('granted_at', { ascending: false });
+
+      if (grantsError) throw grantsError;
+      if (!grantsData) {
+        setGrants([]);
+        return;
+      }
+
+      const userIds = [...new Set(grantsData.map(grant => grant.user_id))];
+      const videoIds = [...new Set(grantsData.map(grant => grant.video_id))];
+
+      const { data: profilesData, error: profilesError } = await supabase
+        .from('profiles')
+        .select('user_id, email')
+        .in('user_id', userIds);
+
+      if (profilesError) throw profilesError;
+
+      const { data: videosData, error: videosError } = await supabase
+        .from('videos')
+        .select('id, title')
+        .in('id', videoIds);
+
+      if (videosError) throw videosError;
+
+      const combinedData = grantsData.map(grant => ({
+        ...grant,
+        profiles: {
+          email: profilesData?.find(p => p.user_id === grant.user_id)?.email || 'غير معروف'
+        },
+        videos: {
+          title: videosData?.find(v => v.id === grant.video_id)?.title || 'غير معروف'
+        }
+      }));
+
+      setGrants(combinedData as VideoGrant[]);
+    } catch (error) {
+      console.error('Error fetching video grants:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في تحميل صلاحيات الفيديوهات",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchStudents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('user_id, email')
+        .eq('role', 'student')
+        .eq('approved', true)
+        .order('email');
+
+      if (error) throw error;
+      setStudents(data || []);
+    } catch (error) {
+      console.error('Error fetching students:', error);
+    }
+  };
+
+  const fetchVideos = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('videos')
+        .select('id, title')
+        .eq('status', 'ready')
+        .order('title');
+
+      if (error) throw error;
+      setVideos(data || []);
+    } catch (error) {
+      console.error('Error fetching videos:', error);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData({
+      user_id: '',
+      video_id: '',
+      grant_type: 'gift',
+      expires_at: '',
+      note: ''
+    });
+  };
+
+  const grantAccess = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.user_id || !formData.video_id) {
+      toast({
+        title: "خطأ",
+        description: "يرجى اختيار الطالب والفيديو",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      // Re-granting the same video replaces the previous grant's terms
+      const { error } = await supabase
+        .from('video_access')
+        .upsert({
+          user_id: formData.user_id,
+          video_id: formData.video_id,
+          grant_type: formData.grant_type,
+          expires_at: formData.expires_at ? new Date(`${formData.expires_at}T23:59:59`).toISOString() : null,
+          note: formData.note || null,
+          granted_by: user?.id ?? null,
+          granted_at: new Date().toISOString()
+        }, { onConflict: 'video_id,user_id' });
+
+      if (error) throw error;
+
+      toast({
+        title: "تم المنح",
+        description: "تم منح الطالب صلاحية مشاهدة الفيديو"
+      });
+
+      resetForm();
+      setIsDialogOpen(false);
+      fetchGrants();
+    } catch (error) {
+      console.error('Error granting video access:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في منح صلاحية الفيديو",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const revokeAccess = async (grantId: string) => {
+    if (!confirm('هل أنت متأكد من سحب صلاحية هذا الفيديو؟')) return;
+
+    try {
+      const { error } = await supabase
+        .from('video_access')
+        .delete()
+        .eq('id', grantId);
+
+      if (error) throw error;
+
+      toast({
+        title: "تم السحب",
+        description: "تم سحب صلاحية الفيديو من الطالب"
+      });
+
+      fetchGrants();
+    } catch (error) {
+      console.error('Error revoking video access:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في سحب صلاحية الفيديو",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const isExpired = (grant: VideoGrant) =>
+    !!grant.expires_at && new Date(grant.expires_at) <= new Date();
+
+  const filteredGrants = grants.filter(grant =>
+    grant.profiles.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    grant.videos.title.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+        <p className="text-muted-foreground mt-2">جاري تحميل صلاحيات الفيديوهات...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">منح الفيديوهات</h2>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={resetForm}>
+              <Plus className="h-4 w-4 ml-1" />
+              منح فيديو
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>منح فيديو لطالب</DialogTitle>
+              <DialogDescription>
+                إتاحة فيديو واحد لطالب محدد كهدية أو تعويض حصة أو تجربة
+              </DialogDescription>
+            </DialogHeader>
+
+            <form onSubmit={grantAccess} className="space-y-4">
+              <div>
+                <Label>الطالب</Label>
+                <Select
+                  value={formData.user_id}
+                  onValueChange={(value) => setFormData({...formData, user_id: value})}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="اختر الطالب" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {students.map((student) => (
+                      <SelectItem key={student.user_id} value={student.user_id}>
+                        {student.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label>الفيديو</Label>
+                <Select
+                  value={formData.video_id}
+                  onValueChange={(value) => setFormData({...formData, video_id: value})}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="اختر الفيديو" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {videos.map((video) => (
+                      <SelectItem key={video.id} value={video.id}>
+                        {video.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>نوع المنح</Label>
+                  <Select
+                    value={formData.grant_type}
+                    onValueChange={(value: GrantType) => setFormData({...formData, grant_type: value})}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="gift">{grantTypeLabels.gift}</SelectItem>
+                      <SelectItem value="makeup">{grantTypeLabels.makeup}</SelectItem>
+                      <SelectItem value="trial">{grantTypeLabels.trial}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="grant-expires">تاريخ الانتهاء (اختياري)</Label>
+                  <Input
+                    id="grant-expires"
+                    type="date"
+                    value={formData.expires_at}
+                    onChange={(e) => setFormData({...formData, expires_at: e.target.value})}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="grant-note">ملاحظة</Label>
+                <Textarea
+                  id="grant-note"
+                  value={formData.note}
+                  onChange={(e) => setFormData({...formData, note: e.target.value})}
+                  rows={2}
+                />
+              </div>
+
+              <div className="flex gap-2 pt-4">
+                <Button type="submit" className="flex-1">
+                  منح الصلاحية
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                >
+                  إلغاء
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="البحث بالإيميل أو عنوان الفيديو..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Grants List */}
+      <div className="space-y-4">
+        {filteredGrants.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-8">
+              <p className="text-muted-foreground">
+                {searchTerm ? 'لا توجد نتائج للبحث' : 'لا توجد فيديوهات ممنوحة بعد'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          filteredGrants.map((grant) => (
+            <Card key={grant.id}>
+              <CardContent className="p-4">
+                <div className="flex justify-between items-start">
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold">{grant.profiles.email}</h3>
+                      <Badge variant="secondary">{grantTypeLabels[grant.grant_type] || grant.grant_type}</Badge>
+                      {isExpired(grant) && <Badge variant="destructive">منتهي</Badge>}
+                    </div>
+
+                    <p className="text-sm text-muted-foreground">
+                      الفيديو: {grant.videos.title}
+                    </p>
+
+                    <div className="flex items-center gap-2 text-sm">
+                      <Calendar className="h-4 w-4 text-muted-foreground" />
+                      <span>
+                        {grant.expires_at
+                          ? `ينتهي في: ${new Date(grant.expires_at).toLocaleDateString('ar-SA')}`
+                          : 'بدون تاريخ انتهاء'}
+                      </span>
+                    </div>
+
+                    {grant.note && (
+                      <p className="text-sm text-muted-foreground">{grant.note}</p>
+                    )}
+
+                    <p className="text-xs text-muted-foreground">
+                      تاريخ المنح: {new Date(grant.granted_at).toLocaleDateString('ar-SA')}
+                    </p>
+                  </div>
+
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => revokeAccess(grant.id)}
+                  >
+                    <Trash2 className="h-4 w-4 ml-1" />
+                    سحب
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminVideoAccessManagement;
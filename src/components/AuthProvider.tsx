@@ -0,0 +1,221 @@
+import { useEffect, useState, ReactNode } from 'react';
+import { User, Session, AuthError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { AuthContext, type Profile } from '@/hooks/useAuth';
+import { useIdleTimeout } from '@/hooks/useIdleTimeout';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { recordAuthEvent, recordSignIn } from '@/lib/securityEvents';
+
+// Minutes without activity before an automatic sign-out; 0 turns it off
+const DEFAULT_IDLE_TIMEOUT_MINUTES = Number(import.meta.env.VITE_IDLE_TIMEOUT_MINUTES ?? 30);
+const IDLE_WARNING_MS = 60 * 1000;
+
+interface AuthProviderProps {
+  children: ReactNode;
+  idleTimeoutMinutes?: number;
+}
+
+const AuthProvider = ({ children, idleTimeoutMinutes = DEFAULT_IDLE_TIMEOUT_MINUTES }: AuthProviderProps) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+
+  const fetchProfile = async (userId: string) => {
+    const { data: profileData } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .single();
+
+    if (profileData) {
+      setProfile(profileData);
+    }
+    return profileData;
+  };
+
+  useEffect(() => {
+    // Set up auth state listener
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      async (event, session) => {
+        setSession(session);
+        setUser(session?.user ?? null);
+
+        if (event === 'PASSWORD_RECOVERY') {
+          setPasswordRecovery(true);
+        } else if (!session) {
+          setPasswordRecovery(false);
+        }
+        
+        if (session?.user) {
+          // Fetch user profile; loading stays on until it arrives so route
+          // guards never judge a signed-in user without their profile
+          setTimeout(async () => {
+            await fetchProfile(session.user.id);
+            setLoading(false);
+            if (event === 'SIGNED_IN') {
+              recordSignIn(session);
+            }
+          }, 0);
+        } else {
+          setProfile(null);
+          setLoading(false);
+        }
+      }
+    );
+
+    // Check for existing session
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setUser(session?.user ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const signUp = async (email: string, password: string) => {
+    const redirectUrl = `${window.location.origin}/`;
+    
+    const { error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        emailRedirectTo: redirectUrl
+      }
+    });
+    return { error };
+  };
+
+  const signIn = async (email: string, password: string) => {
+    // Wrong passwords are recorded by the auth server's password verification hook
+    const { error } = await supabase.auth.signInWithPassword({
+      email,
+      password,
+    });
+
+    return { error };
+  };
+
+  // Only existing accounts may use the link; sign up still goes through signUp
+  const signInWithMagicLink = async (email: string, redirectPath = '/') => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        emailRedirectTo: `${window.location.origin}${redirectPath}`,
+        shouldCreateUser: false,
+      }
+    });
+    return { error };
+  };
+
+  const resendConfirmation = async (email: string) => {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: {
+        emailRedirectTo: `${window.location.origin}/`
+      }
+    });
+    return { error };
+  };
+
+  // The emailed link signs the user in with a recovery session on /reset-password
+  const resetPassword = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/reset-password`
+    });
+    return { error };
+  };
+
+  // Only the session opened by a reset link may set a new password this way,
+  // so an unattended signed-in browser cannot be used to take over the account
+  const updatePassword = async (password: string) => {
+    if (!passwordRecovery) {
+      return { error: new AuthError('Open the reset link from your email to set a new password') };
+    }
+
+    const { error } = await supabase.auth.updateUser({ password });
+
+    if (!error) {
+      setPasswordRecovery(false);
+      recordAuthEvent('password_changed');
+    }
+    return { error };
+  };
+
+  const signOut = async () => {
+    // Recorded first, while the session token is still valid
+    await recordAuthEvent('sign_out');
+    await supabase.auth.signOut();
+  };
+
+  const refreshProfile = async () => {
+    return user ? await fetchProfile(user.id) : null;
+  };
+
+  const signOutIdle = async () => {
+    await recordAuthEvent('sign_out', { reason: 'idle_timeout' });
+    await supabase.auth.signOut();
+    toast({
+      title: "تم تسجيل الخروج",
+      description: "تم تسجيل خروجك تلقائياً بسبب عدم النشاط"
+    });
+  };
+
+  const { secondsLeft, markActive } = useIdleTimeout({
+    enabled: !!user && idleTimeoutMinutes > 0,
+    timeoutMs: idleTimeoutMinutes * 60 * 1000,
+    warningMs: IDLE_WARNING_MS,
+    activeSince: user?.last_sign_in_at ? Date.parse(user.last_sign_in_at) : 0,
+    onTimeout: signOutIdle,
+  });
+
+  const value = {
+    user,
+    session,
+    profile,
+    loading,
+    passwordRecovery,
+    signUp,
+    signIn,
+    signInWithMagicLink,
+    resendConfirmation,
+    resetPassword,
+    updatePassword,
+    signOut,
+    refreshProfile,
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <AlertDialog open={secondsLeft !== null}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>هل ما زلت هنا؟</AlertDialogTitle>
+            <AlertDialogDescription>
+              سيتم تسجيل خروجك خلال {secondsLeft} ثانية بسبب عدم النشاط.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={signOut}>تسجيل الخروج</AlertDialogCancel>
+            <AlertDialogAction onClick={markActive}>متابعة الجلسة</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </AuthContext.Provider>
+  );
+};
+
+export default AuthProvider;
@@ -15,7 +15,6 @@ interface Course {
 
 interface CoursePassword {
   id: string;
-  password: string;
   used: boolean;
   expires_at: string;
   created_at: string;
@@ -30,6 +29,7 @@ const CoursePasswordGenerator = () => {
   const [passwords, setPasswords] = useState<CoursePassword[]>([]);
   const [selectedCourse, setSelectedCourse] = useState('');
   const [customPassword, setCustomPassword] = useState('');
+  const [createdPassword, setCreatedPassword] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -57,7 +57,7 @@ const CoursePasswordGenerator = () => {
       const { data, error } = await supabase
         .from('course_passwords')
         .select(`
-          *,
+          id, used, expires_at, created_at,
           course:courses!inner (title)
         `)
         .eq('used', false)
@@ -76,9 +76,15 @@ const CoursePasswordGenerator = () => {
 
   const generateRandomPassword = () => {
     const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    // Reject bytes above the largest multiple of the alphabet size to avoid modulo bias
+    const limit = 256 - (256 % chars.length);
     let result = '';
-    for (let i = 0; i < 8; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
+    while (result.length < 10) {
+      for (const byte of crypto.getRandomValues(new Uint8Array(16))) {
+        if (byte < limit && result.length < 10) {
+          result += chars.charAt(byte % chars.length);
+        }
+      }
     }
     return result;
   };
@@ -94,14 +100,22 @@ const CoursePasswordGenerator = () => {
     }
 
     try {
-      const password = customPassword || generateRandomPassword();
-      
-      const { error } = await supabase
-        .from('course_passwords')
-        .insert([{
-          course_id: selectedCourse,
-          password: password
-        }]);
+      if (customPassword && customPassword.trim().length < 6) {
+        toast({
+          title: "خطأ",
+          description: "يجب ألا تقل كلمة المرور المخصصة عن 6 أحرف",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      const password = customPassword.trim() || generateRandomPassword();
+
+      // Only the hash is stored; the plaintext is shown here once
+      const { error } = await supabase.rpc('create_course_password', {
+        _course_id: selectedCourse,
+        _password: password
+      });
 
       if (error) throw error;
 
@@ -110,6 +124,7 @@ const CoursePasswordGenerator = () => {
         description: "تم إنشاء كلمة المرور بنجاح"
       });
 
+      setCreatedPassword(password);
       setCustomPassword('');
       fetchPasswords();
     } catch (error) {
@@ -204,6 +219,33 @@ const CoursePasswordGenerator = () => {
             <Plus className="h-4 w-4 ml-1" />
             إنشاء كلمة المرور
           </Button>
+
+          {createdPassword && (
+            <div className="p-4 border rounded-lg bg-muted/50 space-y-2">
+              <p className="text-sm text-muted-foreground">
+                انسخ كلمة المرور الآن، لن تظهر مرة أخرى بعد إغلاق هذه الرسالة
+              </p>
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-mono text-lg font-bold">{createdPassword}</p>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => copyToClipboard(createdPassword)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setCreatedPassword(null)}
+                  >
+                    إغلاق
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -224,20 +266,15 @@ const CoursePasswordGenerator = () => {
               {passwords.map((password) => (
                 <div key={password.id} className="flex items-center justify-between p-3 border rounded-lg">
                   <div>
-                    <p className="font-mono text-lg font-bold">{password.password}</p>
-                    <p className="text-sm text-muted-foreground">{password.course.title}</p>
+                    <p className="font-medium">{password.course.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      أُنشئت في: {new Date(password.created_at).toLocaleString('ar-SA')}
+                    </p>
                     <p className="text-xs text-muted-foreground">
                       تنتهي في: {new Date(password.expires_at).toLocaleDateString('ar-SA')}
                     </p>
                   </div>
                   <div className="flex gap-2">
-                    <Button 
-                      size="sm" 
-                      variant="outline"
-                      onClick={() => copyToClipboard(password.password)}
-                    >
-                      <Copy className="h-4 w-4" />
-                    </Button>
                     <Button 
                       size="sm" 
                       variant="destructive"
@@ -0,0 +1,32 @@
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { useImpersonation } from '@/hooks/useImpersonation';
+import { Eye } from 'lucide-react';
+
+const ImpersonationBanner = () => {
+  const { impersonating, stopImpersonation } = useImpersonation();
+  const navigate = useNavigate();
+
+  if (!impersonating) return null;
+
+  const handleExit = () => {
+    stopImpersonation();
+    navigate('/');
+  };
+
+  return (
+    <div className="sticky top-0 z-50 bg-amber-500 text-amber-950">
+      <div className="container mx-auto px-4 py-2 flex items-center justify-between gap-4">
+        <p className="text-sm font-medium flex items-center gap-2">
+          <Eye className="h-4 w-4" />
+          تعرض المنصة كما يراها الطالب <span dir="ltr">{impersonating.email}</span> - وضع القراءة فقط
+        </p>
+        <Button size="sm" variant="outline" className="bg-transparent border-amber-950 hover:bg-amber-400" onClick={handleExit}>
+          إنهاء المعاينة
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ImpersonationBanner;
@@ -0,0 +1,54 @@
+import { useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { ImpersonationContext, type ImpersonatedStudent } from '@/hooks/useImpersonation';
+
+const STORAGE_KEY = 'impersonated-student';
+
+const loadStoredStudent = (): ImpersonatedStudent | null => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Read-only "view as student" preview for admins. Pages read the student's
+// data instead of the admin's while it is active; RLS still applies as the admin.
+const ImpersonationProvider = ({ children }: { children: ReactNode }) => {
+  const { profile, loading } = useAuth();
+  const [student, setStudent] = useState<ImpersonatedStudent | null>(loadStoredStudent);
+
+  // Drop the preview when the admin signs out or someone else signs in
+  useEffect(() => {
+    if (!loading && profile?.role !== 'admin' && student) {
+      sessionStorage.removeItem(STORAGE_KEY);
+      setStudent(null);
+    }
+  }, [loading, profile, student]);
+
+  const startImpersonation = async (target: ImpersonatedStudent) => {
+    const { error } = await supabase.rpc('log_impersonation', { _student_id: target.user_id });
+    if (error) return { error };
+
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(target));
+    setStudent(target);
+    return { error: null };
+  };
+
+  const stopImpersonation = () => {
+    sessionStorage.removeItem(STORAGE_KEY);
+    setStudent(null);
+  };
+
+  const value = {
+    impersonating: profile?.role === 'admin' ? student : null,
+    startImpersonation,
+    stopImpersonation,
+  };
+
+  return <ImpersonationContext.Provider value={value}>{children}</ImpersonationContext.Provider>;
+};
+
+export default ImpersonationProvider;
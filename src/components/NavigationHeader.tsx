@@ -2,6 +2,7 @@ import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { Home, LogOut } from 'lucide-react';
 import { Link, useNavigate } from 'react-router-dom';
+import { roleLabels } from '@/lib/roles';
 
 interface NavigationHeaderProps {
   title?: string;
@@ -66,7 +67,7 @@ const NavigationHeader = ({
               <div className="text-right mx-2">
                 <span className="text-sm font-medium text-foreground block">{profile.email}</span>
                 <span className="text-xs text-muted-foreground">
-                  {profile.role === 'admin' ? 'مسؤول' : 'طالب'}
+                  {roleLabels[profile.role]}
                 </span>
               </div>
             )}
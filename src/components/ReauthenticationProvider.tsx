@@ -0,0 +1,111 @@
+import { useRef, useState, ReactNode, FormEvent } from 'react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { ReauthenticationContext } from '@/hooks/useReauthentication';
+
+// Error codes returned by the reauthenticate function
+const reauthErrorMessages: Record<string, string> = {
+  invalid_password: 'كلمة المرور غير صحيحة',
+  too_many_attempts: 'محاولات خاطئة كثيرة، حاول مرة أخرى بعد عشر دقائق',
+  unauthorized: 'انتهت الجلسة، يرجى تسجيل الدخول مرة أخرى',
+};
+
+// Asks for the password again before a destructive action. The server keeps
+// the confirmation for a few minutes and delete policies refuse without it,
+// so this dialog is a convenience, not the enforcement.
+const ReauthenticationProvider = ({ children }: { children: ReactNode }) => {
+  const [description, setDescription] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const requireReauthentication = (actionDescription: string) => {
+    resolveRef.current?.(false);
+    setDescription(actionDescription);
+    setPassword('');
+    setError(null);
+
+    return new Promise<boolean>((resolve) => {
+      resolveRef.current = resolve;
+    });
+  };
+
+  const close = (confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setDescription(null);
+    setPassword('');
+  };
+
+  const verifyPassword = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+
+    setVerifying(true);
+    setError(null);
+    try {
+      const { error: invokeError } = await supabase.functions.invoke('reauthenticate', {
+        body: { password },
+      });
+
+      if (invokeError) {
+        const details = invokeError instanceof FunctionsHttpError
+          ? await invokeError.context.json().catch(() => null)
+          : null;
+
+        setError(reauthErrorMessages[details?.error] || 'فشل في التحقق من كلمة المرور');
+        return;
+      }
+
+      close(true);
+    } catch (error) {
+      console.error('Error verifying password:', error);
+      setError('فشل في التحقق من كلمة المرور');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <ReauthenticationContext.Provider value={{ requireReauthentication }}>
+      {children}
+      <Dialog open={description !== null} onOpenChange={(open) => !open && close(false)}>
+        <DialogContent className="max-w-md">
+          <form onSubmit={verifyPassword} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>تأكيد بكلمة المرور</DialogTitle>
+              <DialogDescription>{description}</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reauth-password">كلمة المرور</Label>
+              <Input
+                id="reauth-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => close(false)}>
+                إلغاء
+              </Button>
+              <Button type="submit" variant="destructive" disabled={!password || verifying}>
+                {verifying ? 'جاري التحقق...' : 'تأكيد'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </ReauthenticationContext.Provider>
+  );
+};
+
+export default ReauthenticationProvider;
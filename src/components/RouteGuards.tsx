@@ -0,0 +1,60 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+import type { AppRole } from '@/lib/roles';
+import type { RedirectState } from '@/lib/redirect';
+import { isSuspended } from '@/lib/suspension';
+
+const ProfileLoading = () => (
+  <div className="min-h-screen flex items-center justify-center bg-background">
+    <Card className="w-full max-w-md card-shadow">
+      <CardHeader className="text-center">
+        <CardTitle>جاري التحميل...</CardTitle>
+        <CardDescription>يرجى الانتظار أثناء تحميل ملفك الشخصي.</CardDescription>
+      </CardHeader>
+    </Card>
+  </div>
+);
+
+const useFromState = (): RedirectState => {
+  const location = useLocation();
+  return { from: `${location.pathname}${location.search}${location.hash}` };
+};
+
+// Signed-in users with a loaded profile only; others go to /auth and come back
+export const RequireAuth = () => {
+  const { user, profile, loading } = useAuth();
+  const fromState = useFromState();
+
+  if (loading) return <ProfileLoading />;
+  if (!user) return <Navigate to="/auth" state={fromState} replace />;
+  if (!profile) return <ProfileLoading />;
+
+  return <Outlet />;
+};
+
+// Students must be approved by an admin, and nobody may be suspended
+export const RequireApproved = () => {
+  const { profile } = useAuth();
+  const fromState = useFromState();
+
+  if (profile && ((profile.role === 'student' && !profile.approved) || isSuspended(profile))) {
+    return <Navigate to="/pending-approval" state={fromState} replace />;
+  }
+
+  return <Outlet />;
+};
+
+interface RequireRoleProps {
+  roles: AppRole[];
+}
+
+export const RequireRole = ({ roles }: RequireRoleProps) => {
+  const { profile } = useAuth();
+
+  if (!profile || !roles.includes(profile.role)) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <Outlet />;
+};
@@ -0,0 +1,88 @@
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { supabase } from '@/integrations/supabase/client';
+import { describeUserAgent } from '@/lib/device';
+import { SecurityEvent, detectUnusualActivity, securityEventLabels } from '@/lib/securityEvents';
+import { AlertTriangle } from 'lucide-react';
+
+interface SecurityEventsListProps {
+  userId: string;
+}
+
+const SecurityEventsList = ({ userId }: SecurityEventsListProps) => {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [userId]);
+
+  const fetchEvents = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('security_events')
+        .select('id, event_type, device_id, ip_address, user_agent, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (error) {
+      console.error('Error fetching security events:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-6">لا يوجد نشاط مسجل</p>;
+  }
+
+  const flags = detectUnusualActivity(events);
+
+  return (
+    <div className="space-y-3">
+      {flags.map((flag) => (
+        <Alert key={flag.label} variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>نشاط غير معتاد</AlertTitle>
+          <AlertDescription>
+            {flag.label} ({new Date(flag.at).toLocaleString('ar-SA')})
+          </AlertDescription>
+        </Alert>
+      ))}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {events.map((event) => (
+          <div key={event.id} className="flex items-center justify-between p-3 border rounded-lg">
+            <div className="space-y-1">
+              <Badge variant={event.event_type === 'sign_in_failed' ? 'destructive' : 'secondary'}>
+                {securityEventLabels[event.event_type] ?? event.event_type}
+              </Badge>
+              <p className="text-xs text-muted-foreground">
+                {describeUserAgent(event.user_agent)}
+                {event.ip_address && ` - ${event.ip_address}`}
+              </p>
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {new Date(event.created_at).toLocaleString('ar-SA')}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SecurityEventsList;
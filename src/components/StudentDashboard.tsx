@@ -5,7 +5,8 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import { BookOpen, Clock, DollarSign, GraduationCap } from 'lucide-react';
+import { useImpersonation } from '@/hooks/useImpersonation';
+import { BookOpen, Clock, DollarSign, GraduationCap, Play } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
 interface Course {
@@ -26,20 +27,30 @@ interface UserSubscription {
   end_date: string | null;
 }
 
+interface GrantedVideo {
+  id: string;
+  title: string;
+  expires_at: string | null;
+}
+
 const StudentDashboard = () => {
   const [courses, setCourses] = useState<Course[]>([]);
   const [subscriptions, setSubscriptions] = useState<UserSubscription[]>([]);
+  const [grantedVideos, setGrantedVideos] = useState<GrantedVideo[]>([]);
   const [loading, setLoading] = useState(true);
   const { toast } = useToast();
   const { user } = useAuth();
+  const { impersonating } = useImpersonation();
+  const viewerId = impersonating?.user_id ?? user?.id;
   const navigate = useNavigate();
 
   useEffect(() => {
     fetchCourses();
-    if (user) {
+    if (viewerId) {
       fetchUserSubscriptions();
+      fetchGrantedVideos();
     }
-  }, [user]);
+  }, [viewerId]);
 
   const fetchCourses = async () => {
     try {
@@ -64,13 +75,13 @@ const StudentDashboard = () => {
   };
 
   const fetchUserSubscriptions = async () => {
-    if (!user) return;
+    if (!viewerId) return;
     
     try {
       const { data, error } = await supabase
         .from('subscriptions')
         .select('*')
-        .eq('user_id', user.id);
+        .eq('user_id', viewerId);
 
       if (error) throw error;
       setSubscriptions(data || []);
@@ -79,6 +90,37 @@ const StudentDashboard = () => {
     }
   };
 
+  const fetchGrantedVideos = async () => {
+    if (!viewerId) return;
+
+    try {
+      const { data: grantsData, error: grantsError } = await supabase
+        .from('video_access')
+        .select('video_id, expires_at')
+        .eq('user_id', viewerId)
+        .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`);
+
+      if (grantsError) throw grantsError;
+      if (!grantsData || grantsData.length === 0) {
+        setGrantedVideos([]);
+        return;
+      }
+
+      const { data: videosData, error: videosError } = await supabase
+        .from('viewable_videos')
+        .select('id, title')
+        .in('id', grantsData.map(grant => grant.video_id));
+
+      if (videosError) throw videosError;
+      setGrantedVideos((videosData || []).map(video => ({
+        ...video,
+        expires_at: grantsData.find(grant => grant.video_id === video.id)?.expires_at ?? null
+      })));
+    } catch (error) {
+      console.error('Error fetching granted videos:', error);
+    }
+  };
+
   const getSubscriptionStatus = (courseId: string) => {
     const subscription = subscriptions.find(s => s.course_id === courseId);
     if (!subscription) return null;
@@ -204,6 +246,38 @@ const StudentDashboard = () => {
         </Card>
       )}
 
+      {/* Individually Granted Videos */}
+      {grantedVideos.length > 0 && (
+        <Card className="card-shadow">
+          <CardHeader>
+            <CardTitle className="text-xl">فيديوهات ممنوحة لك</CardTitle>
+            <CardDescription>
+              فيديوهات أتاحتها لك الإدارة بشكل منفصل عن الكورسات
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {grantedVideos.map((video) => (
+                <div key={video.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium">{video.title}</p>
+                    {video.expires_at && (
+                      <p className="text-xs text-muted-foreground">
+                        متاح حتى: {new Date(video.expires_at).toLocaleDateString('ar-SA')}
+                      </p>
+                    )}
+                  </div>
+                  <Button size="sm" onClick={() => navigate(`/video/${video.id}`)} disabled={!!impersonating}>
+                    <Play className="h-4 w-4 ml-1" />
+                    تشغيل
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Browse All Courses */}
       <Card className="card-shadow">
         <CardHeader>
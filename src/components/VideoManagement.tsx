@@ -8,20 +8,82 @@ import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { useReauthentication } from '@/hooks/useReauthentication';
 import { supabase } from '@/integrations/supabase/client';
-import { Video, Edit, Trash2, Eye, EyeOff, Settings, Download } from 'lucide-react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { Video, Edit, Trash2, Eye, EyeOff, Settings, Download, AlertTriangle, RotateCcw } from 'lucide-react';
+import VideoThumbnail from '@/components/VideoThumbnail';
+import VideoThumbnailPicker from '@/components/VideoThumbnailPicker';
 
 interface VideoRecord {
   id: string;
   title: string;
   description: string;
   file_path: string;
-  status: 'processing' | 'ready' | 'disabled';
+  hls_path: string | null;
+  thumbnail_path: string | null;
+  video_type: string | null;
+  video_url: string | null;
+  status: 'processing' | 'ready' | 'disabled' | 'failed';
   duration_seconds: number | null;
+  width: number | null;
+  height: number | null;
+  video_codec: string | null;
+  file_size_bytes: number | null;
+  processing_queued_at: string | null;
+  processing_started_at: string | null;
+  processing_error: string | null;
+  processing_attempts: number;
   created_at: string;
   updated_at: string;
 }
 
+// Processing videos untouched for this long are shown as stuck
+const STUCK_AFTER_MS = 2 * 60 * 60 * 1000;
+
+// Error codes returned by the process-video-upload function
+const retryErrorMessages: Record<string, string> = {
+  forbidden: 'You are not allowed to manage this video',
+  invalid_state: 'This video is already queued for processing',
+  missing_upload: 'The uploaded file is missing; clean up and upload the video again',
+};
+
+// Error codes returned by the delete-video function
+const deleteErrorMessages: Record<string, string> = {
+  reauthentication_required: 'Password confirmation expired, try again',
+  not_found: 'The video no longer exists or you are not allowed to delete it',
+};
+
+// A stored file that was never queued needs attention right away. Without a
+// file the upload may still be running, so it only counts once it is old.
+const isStuck = (video: VideoRecord, uploaded: boolean) => {
+  if (video.status !== 'processing') return false;
+  if (!video.processing_queued_at && uploaded) return true;
+  return Date.now() - Date.parse(video.processing_started_at ?? video.processing_queued_at ?? video.updated_at) > STUCK_AFTER_MS;
+};
+
+const stuckReason = (video: VideoRecord, uploaded: boolean) => {
+  if (video.status === 'failed') return video.processing_error || 'Processing failed';
+  if (video.processing_started_at) return 'Processing has not finished';
+  if (video.processing_queued_at) return 'Waiting for the media worker';
+  if (uploaded) return 'The upload was never queued for processing';
+  return 'The upload did not finish';
+};
+
+// Ids of the unqueued videos whose source file is already in storage
+const findUploadedUnqueued = async (videos: VideoRecord[]) => {
+  const unqueued = videos.filter(video => video.status === 'processing' && !video.processing_queued_at && video.file_path);
+
+  const results = await Promise.all(unqueued.map(async (video) => {
+    const folder = video.file_path.substring(0, video.file_path.lastIndexOf('/'));
+    const fileName = video.file_path.substring(video.file_path.lastIndexOf('/') + 1);
+    const { data } = await supabase.storage.from('videos').list(folder, { search: fileName, limit: 100 });
+    return data?.some(object => object.name === fileName) ? video.id : null;
+  }));
+
+  return new Set(results.filter((id): id is string => id !== null));
+};
+
 interface VideoManagementProps {
   refreshTrigger?: number;
 }
@@ -33,7 +95,10 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
   const [editTitle, setEditTitle] = useState('');
   const [editDescription, setEditDescription] = useState('');
   const [editStatus, setEditStatus] = useState<'ready' | 'disabled'>('ready');
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [uploadedIds, setUploadedIds] = useState<Set<string>>(new Set());
   const { toast } = useToast();
+  const { requireReauthentication } = useReauthentication();
 
   const fetchVideos = async () => {
     const { data, error } = await supabase
@@ -49,6 +114,7 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
       });
     } else {
       setVideos(data || []);
+      setUploadedIds(await findUploadedUnqueued(data || []));
     }
     setLoading(false);
   };
@@ -72,7 +138,8 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
       .update({
         title: editTitle,
         description: editDescription,
-        status: editStatus,
+        // Processing and failed videos become ready only through the media worker
+        ...(editingVideo.status !== 'processing' && editingVideo.status !== 'failed' && { status: editStatus }),
         updated_at: new Date().toISOString(),
       })
       .eq('id', editingVideo.id);
@@ -93,30 +160,55 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
     }
   };
 
-  const handleDelete = async (video: VideoRecord) => {
-    if (!confirm(`Are you sure you want to delete "${video.title}"? This action cannot be undone.`)) {
-      return;
-    }
+  const retryProcessing = async (video: VideoRecord) => {
+    setRetryingId(video.id);
 
-    // Delete from storage first
-    const { error: storageError } = await supabase.storage
-      .from('videos')
-      .remove([video.file_path]);
+    const { error } = await supabase.functions.invoke('process-video-upload', {
+      body: {
+        videoId: video.id,
+        title: video.title,
+        description: video.description || '',
+      },
+    });
 
-    if (storageError) {
-      console.warn('Error deleting file from storage:', storageError);
+    if (error) {
+      const details = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
+
+      toast({
+        title: 'Error',
+        description: retryErrorMessages[details?.error] || 'Failed to queue video for processing',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Video queued for processing',
+      });
+      fetchVideos();
     }
+    setRetryingId(null);
+  };
 
-    // Delete from database
-    const { error } = await supabase
-      .from('videos')
-      .delete()
-      .eq('id', video.id);
+  const handleDelete = async (video: VideoRecord) => {
+    if (!await requireReauthentication(`"${video.title}" will be deleted permanently. This action cannot be undone. Enter your password to confirm.`)) {
+      return;
+    }
+
+    // The function deletes the row first and removes the files only if that worked
+    const { error } = await supabase.functions.invoke('delete-video', {
+      body: { videoId: video.id },
+    });
 
     if (error) {
+      const details = error instanceof FunctionsHttpError
+        ? await error.context.json().catch(() => null)
+        : null;
+
       toast({
         title: 'Error',
-        description: 'Failed to delete video',
+        description: deleteErrorMessages[details?.error] || 'Failed to delete video',
         variant: 'destructive',
       });
     } else {
@@ -175,10 +267,23 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
       case 'ready': return 'bg-green-500';
       case 'processing': return 'bg-yellow-500';
       case 'disabled': return 'bg-red-500';
+      case 'failed': return 'bg-orange-600';
       default: return 'bg-gray-500';
     }
   };
 
+  const getStatusLabel = (video: VideoRecord) => {
+    if (video.status !== 'processing') return video.status;
+    if (video.processing_started_at) return 'processing';
+    return video.processing_queued_at ? 'queued' : 'awaiting upload';
+  };
+
+  const formatFileSize = (bytes: number | null) => {
+    if (!bytes) return 'Unknown';
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+  };
+
   const formatDuration = (seconds: number | null) => {
     if (!seconds) return 'Unknown';
     const mins = Math.floor(seconds / 60);
@@ -200,6 +305,8 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
     return <div>Loading videos...</div>;
   }
 
+  const needsAttention = videos.filter(video => video.status === 'failed' || isStuck(video, uploadedIds.has(video.id)));
+
   return (
     <Card>
       <CardHeader>
@@ -212,6 +319,48 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {needsAttention.length > 0 && (
+          <div className="mb-6 space-y-3 rounded-lg border border-orange-300 bg-orange-50 p-4 dark:bg-orange-950/20">
+            <h3 className="flex items-center gap-2 font-semibold">
+              <AlertTriangle className="h-4 w-4 text-orange-600" />
+              Needs attention ({needsAttention.length})
+            </h3>
+            {needsAttention.map((video) => (
+              <div key={video.id} className="flex items-start justify-between gap-4 rounded-md border bg-background p-3">
+                <div className="min-w-0 space-y-1">
+                  <p className="font-medium">{video.title}</p>
+                  <p className="text-sm text-muted-foreground break-words">{stuckReason(video, uploadedIds.has(video.id))}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Attempts: {video.processing_attempts} · Updated: {formatDate(video.updated_at)}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  {(video.status === 'failed' || (!video.processing_queued_at && uploadedIds.has(video.id))) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => retryProcessing(video)}
+                      disabled={retryingId === video.id}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Retry processing
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(video)}
+                    className="text-red-600 hover:text-red-700"
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Clean up
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {videos.length === 0 ? (
           <div className="text-center py-8">
             <Video className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -224,7 +373,8 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
           <div className="space-y-4">
             {videos.map((video) => (
               <Card key={video.id} className="p-4">
-                <div className="flex items-start justify-between">
+                <div className="flex items-start justify-between gap-4">
+                  <VideoThumbnail video={video} className="w-32" />
                   <div className="flex-1">
                     <div className="flex items-center gap-3 mb-2">
                       <h3 className="font-semibold">{video.title}</h3>
@@ -232,7 +382,7 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
                         variant="secondary" 
                         className={`text-white ${getStatusColor(video.status)}`}
                       >
-                        {video.status}
+                        {getStatusLabel(video)}
                       </Badge>
                     </div>
                     {video.description && (
@@ -240,6 +390,11 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
                     )}
                     <div className="flex items-center gap-4 text-xs text-muted-foreground">
                       <span>Duration: {formatDuration(video.duration_seconds)}</span>
+                      {video.width && video.height && (
+                        <span>Resolution: {video.width}x{video.height}</span>
+                      )}
+                      {video.video_codec && <span>Codec: {video.video_codec}</span>}
+                      <span>Size: {formatFileSize(video.file_size_bytes)}</span>
                       <span>Created: {formatDate(video.created_at)}</span>
                       <span>Updated: {formatDate(video.updated_at)}</span>
                     </div>
@@ -250,7 +405,7 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
                       variant="outline"
                       size="sm"
                       onClick={() => toggleVideoStatus(video)}
-                      disabled={video.status === 'processing'}
+                      disabled={video.status === 'processing' || video.status === 'failed'}
                     >
                       {video.status === 'ready' ? (
                         <EyeOff className="h-4 w-4" />
@@ -267,6 +422,8 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
                       <Download className="h-4 w-4" />
                     </Button>
 
+                    <VideoThumbnailPicker video={video} onChange={fetchVideos} />
+
                     <Dialog>
                       <DialogTrigger asChild>
                         <Button
@@ -304,7 +461,7 @@ const VideoManagement = ({ refreshTrigger }: VideoManagementProps) => {
                           </div>
                           <div>
                             <Label htmlFor="edit-status">Status</Label>
-                            <Select value={editStatus} onValueChange={(value: 'ready' | 'disabled') => setEditStatus(value)}>
+                            <Select value={editStatus} onValueChange={(value: 'ready' | 'disabled') => setEditStatus(value)} disabled={editingVideo?.status === 'processing' || editingVideo?.status === 'failed'}>
                               <SelectTrigger>
                                 <SelectValue />
                               </SelectTrigger>
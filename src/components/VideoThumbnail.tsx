@@ -0,0 +1,29 @@
+import { getThumbnailUrl } from '@/lib/thumbnails';
+import { cn } from '@/lib/utils';
+import { Video } from 'lucide-react';
+
+interface VideoThumbnailProps {
+  video: {
+    title: string;
+    thumbnail_path?: string | null;
+    video_type?: string | null;
+    video_url?: string | null;
+  };
+  className?: string;
+}
+
+const VideoThumbnail = ({ video, className }: VideoThumbnailProps) => {
+  const url = getThumbnailUrl(video);
+
+  return (
+    <div className={cn('aspect-video rounded-md overflow-hidden bg-muted flex-shrink-0 flex items-center justify-center', className)}>
+      {url ? (
+        <img src={url} alt={video.title} className="w-full h-full object-cover" loading="lazy" />
+      ) : (
+        <Video className="h-6 w-6 text-muted-foreground" />
+      )}
+    </div>
+  );
+};
+
+export default VideoThumbnail;
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import { ImageIcon } from 'lucide-react';
+
+const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+const THUMBNAIL_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+interface VideoThumbnailPickerProps {
+  video: {
+    id: string;
+    title: string;
+    thumbnail_path: string | null;
+  };
+  onChange: () => void;
+}
+
+// Lets staff pick one of the frames extracted by the media worker, or upload
+// their own image. Everything lives under <video id>/ in the thumbnails bucket.
+const VideoThumbnailPicker = ({ video, onChange }: VideoThumbnailPickerProps) => {
+  const { toast } = useToast();
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchCandidates = async () => {
+    const { data, error } = await supabase.storage
+      .from('thumbnails')
+      .list(video.id, { limit: 100, sortBy: { column: 'name', order: 'asc' } });
+
+    if (error) {
+      console.error('Error listing thumbnails:', error);
+      return;
+    }
+    setCandidates((data || []).map(file => `${video.id}/${file.name}`));
+  };
+
+  const selectThumbnail = async (path: string) => {
+    setSaving(true);
+
+    const { error } = await supabase
+      .from('videos')
+      .update({ thumbnail_path: path })
+      .eq('id', video.id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update thumbnail',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Thumbnail updated',
+      });
+      onChange();
+    }
+    setSaving(false);
+  };
+
+  const uploadThumbnail = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!THUMBNAIL_TYPES.includes(file.type) || file.size > MAX_THUMBNAIL_BYTES) {
+      toast({
+        title: 'Invalid image',
+        description: 'Use a JPEG, PNG or WebP image up to 2 MB',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    const path = `${video.id}/custom-${Date.now()}.${file.type.split('/')[1]}`;
+    const { error } = await supabase.storage
+      .from('thumbnails')
+      .upload(path, file, { contentType: file.type });
+
+    if (error) {
+      console.error('Error uploading thumbnail:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to upload thumbnail',
+        variant: 'destructive',
+      });
+      setSaving(false);
+      return;
+    }
+
+    await fetchCandidates();
+    await selectThumbnail(path);
+  };
+
+  const publicUrl = (path: string) =>
+    supabase.storage.from('thumbnails').getPublicUrl(path).data.publicUrl;
+
+  return (
+    <Dialog onOpenChange={(open) => open && fetchCandidates()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ImageIcon className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Thumbnail</DialogTitle>
+          <DialogDescription>
+            Pick a frame from "{video.title}" or upload your own image
+          </DialogDescription>
+        </DialogHeader>
+        {candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No frames extracted yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {candidates.map((path) => (
+              <button
+                key={path}
+                type="button"
+                onClick={() => selectThumbnail(path)}
+                disabled={saving}
+                className={cn(
+                  'aspect-video overflow-hidden rounded-md border-2',
+                  path === video.thumbnail_path ? 'border-primary' : 'border-transparent hover:border-muted-foreground'
+                )}
+              >
+                <img src={publicUrl(path)} alt="" className="w-full h-full object-cover" loading="lazy" />
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor={`thumbnail-upload-${video.id}`}>Upload image</Label>
+          <Input
+            id={`thumbnail-upload-${video.id}`}
+            type="file"
+            accept={THUMBNAIL_TYPES.join(',')}
+            onChange={uploadThumbnail}
+            disabled={saving}
+          />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VideoThumbnailPicker;
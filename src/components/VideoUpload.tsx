@@ -1,4 +1,4 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,7 +7,17 @@ import { Textarea } from '@/components/ui/textarea';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Upload, Video, CheckCircle, AlertCircle } from 'lucide-react';
+import {
+  findPendingUpload,
+  formatBytes,
+  formatEta,
+  getPendingUploads,
+  removePendingUpload,
+  type PendingUpload,
+  type UploadProgress,
+} from '@/lib/resumableUpload';
+import { prepareVideoUpload, startVideoProcessing, uploadVideoFile } from '@/lib/videoUploads';
+import { Upload, Video, CheckCircle, AlertCircle, Pause, Play, X } from 'lucide-react';
 
 interface VideoUploadProps {
   onUploadComplete?: () => void;
@@ -22,17 +32,38 @@ const VideoUpload = ({ onUploadComplete }: VideoUploadProps) => {
   const [videoUrl, setVideoUrl] = useState('');
   const [uploadType, setUploadType] = useState<'file' | 'url'>('file');
   const [localDuration, setLocalDuration] = useState<number | null>(null);
-  const progressIntervalRef = useRef<number | null>(null);
+  const [uploadStats, setUploadStats] = useState<UploadProgress | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>(getPendingUploads);
+  const [resumeTarget, setResumeTarget] = useState<PendingUpload | null>(null);
+  const uploadRef = useRef<{ start: () => void; abort: () => void } | null>(null);
   const { toast } = useToast();
 
+  // A reload mid-upload needs the file to be selected again, so ask first
+  useEffect(() => {
+    if (!uploading || paused) return;
+
+    const warnBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warnBeforeUnload);
+    return () => window.removeEventListener('beforeunload', warnBeforeUnload);
+  }, [uploading, paused]);
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       // Check if it's a video file
       if (file.type.startsWith('video/')) {
         setSelectedFile(file);
-        // Auto-generate title from filename if not set
-        if (!title) {
+        // The same file as an unfinished upload continues where it stopped
+        const pending = findPendingUpload(file) ?? null;
+        setResumeTarget(pending);
+        if (pending) {
+          setTitle(pending.title);
+        } else if (!title) {
+          // Auto-generate title from filename if not set
           const nameWithoutExtension = file.name.replace(/\.[^/.]+$/, '');
           setTitle(nameWithoutExtension);
         }
@@ -64,6 +95,24 @@ const VideoUpload = ({ onUploadComplete }: VideoUploadProps) => {
     }
   };
 
+  const togglePause = () => {
+    if (paused) {
+      setPaused(false);
+      uploadRef.current?.start();
+    } else {
+      uploadRef.current?.abort();
+      setPaused(true);
+    }
+  };
+
+  const discardPendingUpload = (videoId: string) => {
+    removePendingUpload(videoId);
+    setPendingUploads(getPendingUploads());
+    if (resumeTarget?.videoId === videoId) {
+      setResumeTarget(null);
+    }
+  };
+
   const handleUpload = async () => {
     if (!title || (uploadType === 'file' && !selectedFile) || (uploadType === 'url' && !videoUrl)) {
       toast({
@@ -76,64 +125,34 @@ const VideoUpload = ({ onUploadComplete }: VideoUploadProps) => {
 
     setUploading(true);
     setUploadProgress(0);
-    // Start simulated progress up to 80% while uploading (fetch has no upload progress in browsers)
-    if (progressIntervalRef.current) {
-      clearInterval(progressIntervalRef.current);
-    }
-    progressIntervalRef.current = window.setInterval(() => {
-      setUploadProgress((prev) => (prev < 80 ? prev + 1 : 80));
-    }, 400);
 
     try {
       let videoRecord: any;
       
       if (uploadType === 'file') {
-        // File upload process
-        const { data: video, error: videoError } = await supabase
-          .from('videos')
-          .insert({
-            title,
-            description,
-            file_path: `videos/${Date.now()}-${selectedFile!.name}`,
-            video_type: 'file',
-            status: 'processing'
-          })
-          .select()
-          .single();
-
-        if (videoError) throw videoError;
-        videoRecord = video;
-
-        // Upload file to storage
-        const filePath = `videos/${Date.now()}-${selectedFile!.name}`;
-        const { error: uploadError } = await supabase.storage
-          .from('videos')
-          .upload(filePath, selectedFile!, {
-            cacheControl: '3600',
-            upsert: false,
-          });
-
-        if (uploadError) throw uploadError;
+        const pending = await prepareVideoUpload(selectedFile!, title, description);
+        setPendingUploads(getPendingUploads());
 
-        // Reached after upload completes successfully
-        if (progressIntervalRef.current) {
-          clearInterval(progressIntervalRef.current);
-          progressIntervalRef.current = null;
-        }
-        setUploadProgress(85);
+        await uploadVideoFile(selectedFile!, pending, {
+          onProgress: (progress) => {
+            setUploadStats(progress);
+            setUploadProgress(Math.floor((progress.bytesUploaded / progress.bytesTotal) * 100));
+          },
+          onCreated: (upload) => {
+            uploadRef.current = upload;
+          },
+        });
+        setPendingUploads(getPendingUploads());
+        videoRecord = { id: pending.videoId };
 
-        // Update video record with final file path and duration (if known)
-        const updateData: { file_path: string; duration_seconds?: number } = { file_path: filePath };
         if (localDuration && localDuration > 0) {
-          updateData.duration_seconds = localDuration;
-        }
+          const { error: updateError } = await supabase
+            .from('videos')
+            .update({ duration_seconds: localDuration })
+            .eq('id', pending.videoId);
 
-        const { error: updateError } = await supabase
-          .from('videos')
-          .update(updateData)
-          .eq('id', videoRecord.id);
-
-        if (updateError) throw updateError;
+          if (updateError) throw updateError;
+        }
       } else {
         // URL upload process
         const { data: video, error: videoError } = await supabase
@@ -157,22 +176,27 @@ const VideoUpload = ({ onUploadComplete }: VideoUploadProps) => {
 
       // Process video only for file uploads
       if (uploadType === 'file') {
-        const { error: processError } = await supabase.functions.invoke('process-video-upload', {
-          body: {
-            videoId: videoRecord?.id,
-            title,
-            description,
-          },
-        });
+        const processError = await startVideoProcessing(videoRecord.id, title, description);
 
-        if (processError) throw processError;
+        if (processError) {
+          // The file is stored; Video Management lists the video with a retry action
+          toast({
+            title: 'لم تبدأ معالجة الفيديو',
+            description: `${processError}. يمكنك إعادة المحاولة من إدارة الفيديوهات.`,
+            variant: 'destructive',
+          });
+          onUploadComplete?.();
+          return;
+        }
       }
 
       setUploadProgress(100);
 
       toast({
         title: 'تم الرفع بنجاح',
-        description: 'تم رفع الفيديو وهو متاح الآن',
+        description: uploadType === 'file'
+          ? 'تم رفع الفيديو وسيصبح متاحاً بعد اكتمال المعالجة'
+          : 'تمت إضافة الفيديو وهو متاح الآن',
       });
 
       // Reset form
@@ -181,6 +205,7 @@ const VideoUpload = ({ onUploadComplete }: VideoUploadProps) => {
       setSelectedFile(null);
       setVideoUrl('');
       setLocalDuration(null);
+      setResumeTarget(null);
       setUploadProgress(0);
       
       // Trigger refresh of video list
@@ -192,15 +217,16 @@ const VideoUpload = ({ onUploadComplete }: VideoUploadProps) => {
       console.error('Upload error:', error);
       toast({
         title: 'فشل الرفع',
-        description: error.message || 'حدث خطأ أثناء الرفع',
+        description: uploadType === 'file'
+          ? `${error.message || 'حدث خطأ أثناء الرفع'}. اختر الملف نفسه لمتابعة الرفع من حيث توقف.`
+          : error.message || 'حدث خطأ أثناء الرفع',
         variant: 'destructive',
       });
     } finally {
       setUploading(false);
-      if (progressIntervalRef.current) {
-        clearInterval(progressIntervalRef.current);
-        progressIntervalRef.current = null;
-      }
+      setPaused(false);
+      setUploadStats(null);
+      uploadRef.current = null;
     }
   };
 
@@ -257,6 +283,11 @@ const VideoUpload = ({ onUploadComplete }: VideoUploadProps) => {
                   </div>
                 )}
               </div>
+              {resumeTarget && !uploading && (
+                <p className="text-sm text-muted-foreground">
+                  سيتم متابعة رفع هذا الملف من حيث توقف
+                </p>
+              )}
             </div>
           ) : (
             <div className="space-y-2">
@@ -296,13 +327,60 @@ const VideoUpload = ({ onUploadComplete }: VideoUploadProps) => {
           />
         </div>
 
+        {uploadType === 'file' && !uploading && pendingUploads.length > 0 && (
+          <div className="rounded-lg border p-4 space-y-2">
+            <h4 className="font-medium flex items-center gap-2">
+              <AlertCircle className="h-4 w-4 text-yellow-500" />
+              رفع غير مكتمل
+            </h4>
+            <p className="text-sm text-muted-foreground">
+              اختر الملف نفسه لمتابعة رفعه من حيث توقف
+            </p>
+            <ul className="space-y-1">
+              {pendingUploads.map((pending) => (
+                <li key={pending.videoId} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">
+                    {pending.title} — {pending.fileName} ({formatBytes(pending.fileSize)})
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => discardPendingUpload(pending.videoId)}
+                    title="تجاهل"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {uploading && (
           <div className="space-y-2">
             <div className="flex items-center justify-between text-sm">
-              <span>{uploadType === 'file' ? 'جاري الرفع...' : 'جاري الحفظ...'}</span>
+              <span>
+                {uploadType === 'url'
+                  ? 'جاري الحفظ...'
+                  : paused
+                    ? 'متوقف مؤقتاً'
+                    : uploadProgress === 100 ? 'جاري بدء المعالجة...' : 'جاري الرفع...'}
+              </span>
               <span>{uploadProgress}%</span>
             </div>
             <Progress value={uploadProgress} className="w-full" />
+            {uploadStats && (
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>
+                  {formatBytes(uploadStats.bytesUploaded)} / {formatBytes(uploadStats.bytesTotal)}
+                </span>
+                {!paused && uploadProgress < 100 && (
+                  <span>
+                    {formatBytes(uploadStats.bytesPerSecond)}/ث • المتبقي {formatEta(uploadStats.secondsLeft)}
+                  </span>
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -324,6 +402,21 @@ const VideoUpload = ({ onUploadComplete }: VideoUploadProps) => {
               </>
             )}
           </Button>
+          {uploading && uploadType === 'file' && uploadProgress < 100 && (
+            <Button variant="outline" onClick={togglePause}>
+              {paused ? (
+                <>
+                  <Play className="h-4 w-4 mr-2" />
+                  استئناف
+                </>
+              ) : (
+                <>
+                  <Pause className="h-4 w-4 mr-2" />
+                  إيقاف مؤقت
+                </>
+              )}
+            </Button>
+          )}
         </div>
 
         <div className="bg-muted/50 rounded-lg p-4 space-y-2">
@@ -0,0 +1,376 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { prepareVideoUpload, startVideoProcessing, uploadVideoFile } from '@/lib/videoUploads';
+import { ListVideo, Upload, X } from 'lucide-react';
+
+const MAX_PARALLEL_UPLOADS = 2;
+const NO_COURSE = 'none';
+
+type QueueStatus = 'queued' | 'uploading' | 'processing' | 'done' | 'failed';
+
+interface QueueItem {
+  id: string;
+  file: File;
+  title: string;
+  status: QueueStatus;
+  progress: number;
+  error: string | null;
+  // Set once the file is fully stored, so a retry only restarts processing
+  videoId: string | null;
+}
+
+interface Course {
+  id: string;
+  title: string;
+}
+
+const statusLabels: Record<QueueStatus, string> = {
+  queued: 'في الانتظار',
+  uploading: 'جاري الرفع',
+  processing: 'جاري بدء المعالجة',
+  done: 'تم الرفع',
+  failed: 'فشل',
+};
+
+const statusVariants: Record<QueueStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  uploading: 'secondary',
+  processing: 'secondary',
+  done: 'default',
+  failed: 'destructive',
+};
+
+// Folder uploads keep their relative path, so "part 2/01.mp4" sorts after "part 1/10.mp4"
+const sortKey = (file: File) => file.webkitRelativePath || file.name;
+
+const compareFiles = (a: QueueItem, b: QueueItem) =>
+  sortKey(a.file).localeCompare(sortKey(b.file), undefined, { numeric: true, sensitivity: 'base' });
+
+interface VideoUploadQueueProps {
+  onUploadComplete?: () => void;
+}
+
+const VideoUploadQueue = ({ onUploadComplete }: VideoUploadQueueProps) => {
+  const { toast } = useToast();
+  const { profile } = useAuth();
+  const isAdmin = profile?.role === 'admin';
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const [courses, setCourses] = useState<Course[]>([]);
+  const [courseId, setCourseId] = useState(NO_COURSE);
+
+  useEffect(() => {
+    fetchCourses();
+  }, [profile]);
+
+  // Unfinished files can be resumed, but only after selecting them again
+  useEffect(() => {
+    if (!running) return;
+
+    const warnBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warnBeforeUnload);
+    return () => window.removeEventListener('beforeunload', warnBeforeUnload);
+  }, [running]);
+
+  const fetchCourses = async () => {
+    try {
+      let query = supabase
+        .from('courses')
+        .select('id, title')
+        .order('title');
+
+      // Instructors can only attach videos to the courses assigned to them
+      if (!isAdmin && profile) {
+        const { data: assignments, error: assignmentsError } = await supabase
+          .from('course_instructors')
+          .select('course_id')
+          .eq('user_id', profile.user_id);
+
+        if (assignmentsError) throw assignmentsError;
+        query = query.in('id', assignments?.map(a => a.course_id) || []);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setCourses(data || []);
+    } catch (error) {
+      console.error('Error fetching courses:', error);
+    }
+  };
+
+  const updateItem = (id: string, changes: Partial<QueueItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const addFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+
+    const videos = files.filter(file => file.type.startsWith('video/'));
+    const skipped = files.length - videos.length;
+    if (skipped > 0) {
+      toast({
+        title: 'تم تجاهل بعض الملفات',
+        description: `${skipped} ملف ليس فيديو`,
+      });
+    }
+
+    setItems(prev => {
+      const isQueued = (file: File) => prev.some(item =>
+        item.file.name === file.name &&
+        item.file.size === file.size &&
+        item.file.lastModified === file.lastModified
+      );
+
+      const added = videos.filter(file => !isQueued(file)).map((file): QueueItem => ({
+        id: crypto.randomUUID(),
+        file,
+        title: file.name.replace(/\.[^/.]+$/, ''),
+        status: 'queued',
+        progress: 0,
+        error: null,
+        videoId: null,
+      }));
+
+      return [...prev, ...added].sort(compareFiles);
+    });
+  };
+
+  // Uploads one item and queues it for processing. The video id is returned
+  // once the file is stored, even if processing could not be started.
+  const uploadItem = async (item: QueueItem): Promise<{ videoId: string | null; succeeded: boolean }> => {
+    let videoId = item.videoId;
+
+    try {
+      if (!videoId) {
+        updateItem(item.id, { status: 'uploading', error: null });
+        const pending = await prepareVideoUpload(item.file, item.title, '');
+        await uploadVideoFile(item.file, pending, {
+          onProgress: (progress) => updateItem(item.id, {
+            progress: Math.floor((progress.bytesUploaded / progress.bytesTotal) * 100),
+          }),
+        });
+        videoId = pending.videoId;
+      }
+
+      updateItem(item.id, { status: 'processing', progress: 100, error: null, videoId });
+      const processError = await startVideoProcessing(videoId, item.title, '');
+      if (processError) {
+        updateItem(item.id, { status: 'failed', error: `لم تبدأ المعالجة: ${processError}` });
+        return { videoId, succeeded: false };
+      }
+      updateItem(item.id, { status: 'done' });
+      return { videoId, succeeded: true };
+    } catch (error) {
+      console.error('Queue upload error:', error);
+      updateItem(item.id, {
+        status: 'failed',
+        error: (error as { message?: string })?.message || 'حدث خطأ أثناء الرفع',
+      });
+      return { videoId, succeeded: false };
+    }
+  };
+
+  // Appends the videos after the course's existing ones, in filename order
+  const attachToCourse = async (videoIds: string[]) => {
+    const { data: last, error: lastError } = await supabase
+      .from('course_videos')
+      .select('order_index')
+      .eq('course_id', courseId)
+      .order('order_index', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lastError) throw lastError;
+
+    const start = (last?.order_index ?? -1) + 1;
+    const { error } = await supabase
+      .from('course_videos')
+      .upsert(
+        videoIds.map((videoId, index) => ({
+          course_id: courseId,
+          video_id: videoId,
+          order_index: start + index,
+        })),
+        { onConflict: 'course_id,video_id', ignoreDuplicates: true }
+      );
+
+    if (error) throw error;
+  };
+
+  const runQueue = async () => {
+    const toUpload = items.filter(item => item.status === 'queued' || item.status === 'failed');
+    if (toUpload.length === 0) return;
+
+    setRunning(true);
+    const videoIds = new Map<string, string>();
+    let succeeded = 0;
+    let next = 0;
+
+    const worker = async () => {
+      while (next < toUpload.length) {
+        const item = toUpload[next++];
+        const result = await uploadItem(item);
+        if (result.videoId) videoIds.set(item.id, result.videoId);
+        if (result.succeeded) succeeded++;
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL_UPLOADS, toUpload.length) }, worker));
+
+    if (courseId !== NO_COURSE && videoIds.size > 0) {
+      try {
+        await attachToCourse(toUpload.filter(item => videoIds.has(item.id)).map(item => videoIds.get(item.id)!));
+      } catch (error) {
+        console.error('Error attaching videos to course:', error);
+        toast({
+          title: 'خطأ',
+          description: 'تم رفع الفيديوهات لكن فشل إضافتها إلى الكورس',
+          variant: 'destructive',
+        });
+      }
+    }
+
+    setRunning(false);
+    onUploadComplete?.();
+
+    toast({
+      title: 'اكتملت قائمة الرفع',
+      description: `تم رفع ${succeeded} من ${toUpload.length} فيديو`,
+      variant: succeeded < toUpload.length ? 'destructive' : 'default',
+    });
+  };
+
+  const clearFinished = () => {
+    setItems(prev => prev.filter(item => item.status !== 'done'));
+  };
+
+  const remaining = items.filter(item => item.status === 'queued' || item.status === 'failed').length;
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListVideo className="h-5 w-5" />
+          رفع عدة فيديوهات
+        </CardTitle>
+        <CardDescription>
+          اختر عدة ملفات أو مجلداً كاملاً. يؤخذ عنوان كل فيديو من اسم الملف ويتم رفع {MAX_PARALLEL_UPLOADS} ملفات في نفس الوقت
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="queue-files">ملفات</Label>
+            <Input
+              id="queue-files"
+              type="file"
+              accept="video/*"
+              multiple
+              onChange={addFiles}
+              disabled={running}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="queue-folder">مجلد</Label>
+            <Input
+              id="queue-folder"
+              type="file"
+              ref={(input) => input?.setAttribute('webkitdirectory', '')}
+              onChange={addFiles}
+              disabled={running}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>إضافة إلى كورس (اختياري)</Label>
+          <Select value={courseId} onValueChange={setCourseId} disabled={running}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_COURSE}>بدون كورس</SelectItem>
+              {courses.map((course) => (
+                <SelectItem key={course.id} value={course.id}>
+                  {course.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {courseId !== NO_COURSE && (
+            <p className="text-sm text-muted-foreground">
+              تتم إضافة الفيديوهات في نهاية الكورس بترتيب أسماء الملفات
+            </p>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <ul className="space-y-3">
+            {items.map((item) => (
+              <li key={item.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={item.title}
+                    onChange={(e) => updateItem(item.id, { title: e.target.value })}
+                    disabled={running || item.videoId !== null}
+                    className="flex-1"
+                  />
+                  <Badge variant={statusVariants[item.status]}>{statusLabels[item.status]}</Badge>
+                  {!running && item.status !== 'done' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setItems(prev => prev.filter(queued => queued.id !== item.id))}
+                      title="إزالة"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">{sortKey(item.file)}</p>
+                {item.status === 'uploading' && <Progress value={item.progress} className="w-full" />}
+                {item.error && <p className="text-sm text-destructive">{item.error}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <Button onClick={runQueue} disabled={running || remaining === 0} className="flex-1">
+            {running ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                جاري الرفع...
+              </>
+            ) : (
+              <>
+                <Upload className="h-4 w-4 mr-2" />
+                رفع {remaining} فيديو
+              </>
+            )}
+          </Button>
+          {!running && items.some(item => item.status === 'done') && (
+            <Button variant="outline" onClick={clearFinished}>
+              إزالة المكتملة
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VideoUploadQueue;
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+
+interface VideoWatermarkProps {
+  viewer: string;
+  intervalMs?: number;
+}
+
+// Keep the mark away from the edges so it is never clipped
+const randomPosition = () => ({
+  top: 5 + Math.random() * 80,
+  left: 5 + Math.random() * 65,
+});
+
+const VideoWatermark = ({ viewer, intervalMs = 8000 }: VideoWatermarkProps) => {
+  const [position, setPosition] = useState(randomPosition);
+  const [timestamp, setTimestamp] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      setPosition(randomPosition());
+      setTimestamp(new Date());
+    }, intervalMs);
+
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return (
+    <div
+      className="absolute z-10 pointer-events-none select-none text-white/40 text-xs md:text-sm font-mono whitespace-nowrap transition-all duration-1000"
+      style={{
+        top: `${position.top}%`,
+        left: `${position.left}%`,
+        textShadow: '0 0 2px rgba(0, 0, 0, 0.6)',
+      }}
+      aria-hidden="true"
+    >
+      <div>{viewer}</div>
+      <div>{timestamp.toLocaleString('en-GB')}</div>
+    </div>
+  );
+};
+
+export default VideoWatermark;
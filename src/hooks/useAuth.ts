@@ -0,0 +1,43 @@
+import { createContext, useContext } from 'react';
+import type { User, Session, AuthError } from '@supabase/supabase-js';
+import type { AppRole } from '@/lib/roles';
+
+export interface Profile {
+  id: string;
+  user_id: string;
+  email: string;
+  role: AppRole;
+  approved: boolean;
+  suspended_at: string | null;
+  suspended_until: string | null;
+  suspension_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AuthContextType {
+  user: User | null;
+  session: Session | null;
+  profile: Profile | null;
+  loading: boolean;
+  // True once the emailed reset link signed the user in, until the password is set
+  passwordRecovery: boolean;
+  signUp: (email: string, password: string) => Promise<{ error: any }>;
+  signIn: (email: string, password: string) => Promise<{ error: any }>;
+  signInWithMagicLink: (email: string, redirectPath?: string) => Promise<{ error: AuthError | null }>;
+  resendConfirmation: (email: string) => Promise<{ error: AuthError | null }>;
+  resetPassword: (email: string) => Promise<{ error: AuthError | null }>;
+  updatePassword: (password: string) => Promise<{ error: AuthError | null }>;
+  signOut: () => Promise<void>;
+  refreshProfile: () => Promise<Profile | null>;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -0,0 +1,93 @@
+import { useEffect, useRef, useState } from 'react';
+
+const LAST_ACTIVITY_KEY = 'last_activity_at';
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'];
+// Captured from any <video>; keeps a student watching a lesson signed in, but
+// only in a visible tab that had real input within the timeout, so a video
+// looping in a background tab cannot hold the session open forever
+const PLAYBACK_EVENT = 'timeupdate';
+const ACTIVITY_WRITE_INTERVAL_MS = 5000;
+
+interface IdleTimeoutOptions {
+  enabled: boolean;
+  timeoutMs: number;
+  warningMs: number;
+  // Activity before this time (e.g. the sign-in itself) is ignored
+  activeSince: number;
+  onTimeout: () => void;
+}
+
+// Tracks user activity across all open tabs (through localStorage) and calls
+// onTimeout once nothing happened for timeoutMs. The stored time also covers
+// a browser that was closed and reopened later with the session still saved.
+export function useIdleTimeout({ enabled, timeoutMs, warningMs, activeSince, onTimeout }: IdleTimeoutOptions) {
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  const markActive = () => {
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(Date.now()));
+    setSecondsLeft(null);
+  };
+
+  useEffect(() => {
+    if (!enabled) {
+      setSecondsLeft(null);
+      return;
+    }
+
+    let lastWrite = 0;
+    let lastInput = 0;
+    let warning = false;
+    let timedOut = false;
+
+    const recordActivity = () => {
+      // Once the warning shows, only its button keeps the session alive
+      if (warning || Date.now() - lastWrite < ACTIVITY_WRITE_INTERVAL_MS) return;
+      lastWrite = Date.now();
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(lastWrite));
+    };
+
+    const handleActivity = () => {
+      lastInput = Date.now();
+      recordActivity();
+    };
+
+    const handlePlayback = () => {
+      if (document.visibilityState !== 'visible' || Date.now() - lastInput >= timeoutMs) return;
+      recordActivity();
+    };
+
+    const check = () => {
+      if (timedOut) return;
+
+      const lastActivity = Math.max(Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0, activeSince);
+      const remaining = lastActivity + timeoutMs - Date.now();
+
+      if (remaining <= 0) {
+        timedOut = true;
+        setSecondsLeft(null);
+        onTimeoutRef.current();
+      } else if (remaining <= warningMs) {
+        warning = true;
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      } else {
+        warning = false;
+        setSecondsLeft(null);
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { capture: true, passive: true }));
+    window.addEventListener(PLAYBACK_EVENT, handlePlayback, { capture: true, passive: true });
+    check();
+    const interval = setInterval(check, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity, { capture: true }));
+      window.removeEventListener(PLAYBACK_EVENT, handlePlayback, { capture: true });
+      clearInterval(interval);
+    };
+  }, [enabled, timeoutMs, warningMs, activeSince]);
+
+  return { secondsLeft, markActive };
+}
@@ -0,0 +1,22 @@
+import { createContext, useContext } from 'react';
+
+export interface ImpersonatedStudent {
+  user_id: string;
+  email: string;
+}
+
+export interface ImpersonationContextType {
+  impersonating: ImpersonatedStudent | null;
+  startImpersonation: (student: ImpersonatedStudent) => Promise<{ error: Error | null }>;
+  stopImpersonation: () => void;
+}
+
+export const ImpersonationContext = createContext<ImpersonationContextType | undefined>(undefined);
+
+export const useImpersonation = () => {
+  const context = useContext(ImpersonationContext);
+  if (context === undefined) {
+    throw new Error('useImpersonation must be used within an ImpersonationProvider');
+  }
+  return context;
+};
@@ -0,0 +1,15 @@
+import { createContext, useContext } from 'react';
+
+export interface ReauthenticationContextType {
+  requireReauthentication: (description: string) => Promise<boolean>;
+}
+
+export const ReauthenticationContext = createContext<ReauthenticationContextType | undefined>(undefined);
+
+export const useReauthentication = () => {
+  const context = useContext(ReauthenticationContext);
+  if (context === undefined) {
+    throw new Error('useReauthentication must be used within a ReauthenticationProvider');
+  }
+  return context;
+};
@@ -14,13 +14,154 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_deletion_requests: {
+        Row: {
+          created_at: string
+          id: string
+          reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_deletion_requests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_role: string | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          target_id: string | null
+          target_table: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_role?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          target_id?: string | null
+          target_table: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_role?: string | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          target_id?: string | null
+          target_table?: string
+        }
+        Relationships: []
+      }
+      course_instructors: {
+        Row: {
+          course_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_instructors_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_instructors_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      course_password_secret: {
+        Row: {
+          hmac_key: string
+          id: boolean
+        }
+        Insert: {
+          hmac_key?: string
+          id?: boolean
+        }
+        Update: {
+          hmac_key?: string
+          id?: boolean
+        }
+        Relationships: []
+      }
       course_passwords: {
         Row: {
           course_id: string
           created_at: string
           expires_at: string
           id: string
-          password: string
+          lookup_key: string
+          password_hash: string
           used: boolean
         }
         Insert: {
@@ -28,7 +169,8 @@ export type Database = {
           created_at?: string
           expires_at?: string
           id?: string
-          password: string
+          lookup_key: string
+          password_hash: string
           used?: boolean
         }
         Update: {
@@ -36,7 +178,8 @@ export type Database = {
           created_at?: string
           expires_at?: string
           id?: string
-          password?: string
+          lookup_key?: string
+          password_hash?: string
           used?: boolean
         }
         Relationships: [
@@ -86,6 +229,13 @@ export type Database = {
             referencedRelation: "videos"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "course_videos_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "viewable_videos"
+            referencedColumns: ["id"]
+          },
         ]
       }
       courses: {
@@ -121,6 +271,95 @@ export type Database = {
         }
         Relationships: []
       }
+      mfa_recovery_attempts: {
+        Row: {
+          attempted_at: string
+          id: string
+          ip_address: string | null
+          succeeded: boolean
+          user_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          id?: string
+          ip_address?: string | null
+          succeeded: boolean
+          user_id: string
+        }
+        Update: {
+          attempted_at?: string
+          id?: string
+          ip_address?: string | null
+          succeeded?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      playback_issuances: {
+        Row: {
+          device_id: string | null
+          expires_at: string
+          id: string
+          ip_address: string | null
+          issued_at: string
+          user_agent: string | null
+          user_id: string
+          video_id: string
+        }
+        Insert: {
+          device_id?: string | null
+          expires_at: string
+          id?: string
+          ip_address?: string | null
+          issued_at?: string
+          user_agent?: string | null
+          user_id: string
+          video_id: string
+        }
+        Update: {
+          device_id?: string | null
+          expires_at?: string
+          id?: string
+          ip_address?: string | null
+          issued_at?: string
+          user_agent?: string | null
+          user_id?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "playback_issuances_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           approved: boolean
@@ -128,6 +367,10 @@ export type Database = {
           email: string
           id: string
           role: Database["public"]["Enums"]["app_role"]
+          suspended_at: string | null
+          suspended_by: string | null
+          suspended_until: string | null
+          suspension_reason: string | null
           updated_at: string
           user_id: string
         }
@@ -137,6 +380,10 @@ export type Database = {
           email: string
           id?: string
           role?: Database["public"]["Enums"]["app_role"]
+          suspended_at?: string | null
+          suspended_by?: string | null
+          suspended_until?: string | null
+          suspension_reason?: string | null
           updated_at?: string
           user_id: string
         }
@@ -146,11 +393,160 @@ export type Database = {
           email?: string
           id?: string
           role?: Database["public"]["Enums"]["app_role"]
+          suspended_at?: string | null
+          suspended_by?: string | null
+          suspended_until?: string | null
+          suspension_reason?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      redemption_attempts: {
+        Row: {
+          attempted_at: string
+          course_id: string | null
+          id: string
+          ip_address: string | null
+          succeeded: boolean
+          user_id: string
+        }
+        Insert: {
+          attempted_at?: string
+          course_id?: string | null
+          id?: string
+          ip_address?: string | null
+          succeeded: boolean
+          user_id: string
+        }
+        Update: {
+          attempted_at?: string
+          course_id?: string | null
+          id?: string
+          ip_address?: string | null
+          succeeded?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "redemption_attempts_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      redemption_lockouts: {
+        Row: {
+          failed_attempts: number
+          id: string
+          ip_address: string | null
+          locked_at: string
+          locked_until: string
+          scope: string
+          user_id: string
+        }
+        Insert: {
+          failed_attempts: number
+          id?: string
+          ip_address?: string | null
+          locked_at?: string
+          locked_until: string
+          scope: string
+          user_id: string
+        }
+        Update: {
+          failed_attempts?: number
+          id?: string
+          ip_address?: string | null
+          locked_at?: string
+          locked_until?: string
+          scope?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "redemption_lockouts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      reauthentication_failures: {
+        Row: {
+          created_at: string
+          id: string
+          ip_address: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ip_address?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ip_address?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reauthentications: {
+        Row: {
+          user_id: string
+          verified_at: string
+        }
+        Insert: {
+          user_id: string
+          verified_at?: string
+        }
+        Update: {
+          user_id?: string
+          verified_at?: string
+        }
+        Relationships: []
+      }
+      security_events: {
+        Row: {
+          created_at: string
+          details: Json | null
+          device_id: string | null
+          email: string | null
+          event_type: string
+          id: string
+          ip_address: string | null
+          user_agent: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          details?: Json | null
+          device_id?: string | null
+          email?: string | null
+          event_type: string
+          id?: string
+          ip_address?: string | null
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          details?: Json | null
+          device_id?: string | null
+          email?: string | null
+          event_type?: string
+          id?: string
+          ip_address?: string | null
+          user_agent?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
       subscriptions: {
         Row: {
           course_id: string
@@ -193,24 +589,76 @@ export type Database = {
             referencedRelation: "courses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
         ]
       }
+      user_devices: {
+        Row: {
+          device_id: string
+          first_seen_at: string
+          id: string
+          last_seen_at: string
+          revoked_at: string | null
+          revoked_by: string | null
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          device_id: string
+          first_seen_at?: string
+          id?: string
+          last_seen_at?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          device_id?: string
+          first_seen_at?: string
+          id?: string
+          last_seen_at?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       video_access: {
         Row: {
+          expires_at: string | null
+          grant_type: string
           granted_at: string
+          granted_by: string | null
           id: string
+          note: string | null
           user_id: string
           video_id: string
         }
         Insert: {
+          expires_at?: string | null
+          grant_type?: string
           granted_at?: string
+          granted_by?: string | null
           id?: string
+          note?: string | null
           user_id: string
           video_id: string
         }
         Update: {
+          expires_at?: string | null
+          grant_type?: string
           granted_at?: string
+          granted_by?: string | null
           id?: string
+          note?: string | null
           user_id?: string
           video_id?: string
         }
@@ -231,63 +679,291 @@ export type Database = {
           },
         ]
       }
+      video_encryption_keys: {
+        Row: {
+          created_at: string
+          iv_hex: string | null
+          key_hex: string
+          video_id: string
+        }
+        Insert: {
+          created_at?: string
+          iv_hex?: string | null
+          key_hex: string
+          video_id: string
+        }
+        Update: {
+          created_at?: string
+          iv_hex?: string | null
+          key_hex?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_encryption_keys_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: true
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      video_renditions: {
+        Row: {
+          bitrate_kbps: number | null
+          created_at: string
+          file_path: string
+          file_size_bytes: number | null
+          height: number
+          id: string
+          video_id: string
+          width: number
+        }
+        Insert: {
+          bitrate_kbps?: number | null
+          created_at?: string
+          file_path: string
+          file_size_bytes?: number | null
+          height: number
+          id?: string
+          video_id: string
+          width: number
+        }
+        Update: {
+          bitrate_kbps?: number | null
+          created_at?: string
+          file_path?: string
+          file_size_bytes?: number | null
+          height?: number
+          id?: string
+          video_id?: string
+          width?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_renditions_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       videos: {
         Row: {
+          audio_codec: string | null
           created_at: string
           description: string | null
           duration_seconds: number | null
           file_path: string | null
+          file_size_bytes: number | null
+          height: number | null
+          hls_path: string | null
           id: string
+          processing_attempts: number
+          processing_error: string | null
+          processing_queued_at: string | null
+          processing_queued_by: string | null
+          processing_started_at: string | null
           status: Database["public"]["Enums"]["video_status"]
+          thumbnail_path: string | null
           title: string
           updated_at: string
+          uploaded_by: string | null
+          video_codec: string | null
           video_type: string | null
           video_url: string | null
+          width: number | null
         }
         Insert: {
+          audio_codec?: string | null
           created_at?: string
           description?: string | null
           duration_seconds?: number | null
           file_path?: string | null
+          file_size_bytes?: number | null
+          height?: number | null
+          hls_path?: string | null
           id?: string
+          processing_attempts?: number
+          processing_error?: string | null
+          processing_queued_at?: string | null
+          processing_queued_by?: string | null
+          processing_started_at?: string | null
           status?: Database["public"]["Enums"]["video_status"]
+          thumbnail_path?: string | null
           title: string
           updated_at?: string
+          uploaded_by?: string | null
+          video_codec?: string | null
           video_type?: string | null
           video_url?: string | null
+          width?: number | null
         }
         Update: {
+          audio_codec?: string | null
           created_at?: string
           description?: string | null
           duration_seconds?: number | null
           file_path?: string | null
+          file_size_bytes?: number | null
+          height?: number | null
+          hls_path?: string | null
           id?: string
+          processing_attempts?: number
+          processing_error?: string | null
+          processing_queued_at?: string | null
+          processing_queued_by?: string | null
+          processing_started_at?: string | null
           status?: Database["public"]["Enums"]["video_status"]
+          thumbnail_path?: string | null
           title?: string
           updated_at?: string
+          uploaded_by?: string | null
+          video_codec?: string | null
           video_type?: string | null
           video_url?: string | null
+          width?: number | null
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      viewable_videos: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          duration_seconds: number | null
+          height: number | null
+          id: string | null
+          status: Database["public"]["Enums"]["video_status"] | null
+          thumbnail_path: string | null
+          title: string | null
+          video_type: string | null
+          video_url: string | null
+          width: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      can_manage_course: {
+        Args: { _course_id: string }
+        Returns: boolean
+      }
+      can_manage_thumbnail_object: {
+        Args: { _name: string }
+        Returns: boolean
+      }
+      can_manage_video: {
+        Args: { _video_id: string }
+        Returns: boolean
+      }
+      can_manage_video_object: {
+        Args: { _name: string }
+        Returns: boolean
+      }
+      can_review_payments: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      can_view_video: {
+        Args: { _video_id: string }
+        Returns: boolean
+      }
       check_subscription_expiry: {
         Args: Record<PropertyKey, never>
         Returns: undefined
       }
+      claim_playback_slot: {
+        Args: { _device_id: string; _user_agent: string; _user_id: string }
+        Returns: string
+      }
+      consume_mfa_recovery_code: {
+        Args: { _code: string; _ip_address: string; _user_id: string }
+        Returns: Json
+      }
+      course_password_lookup_key: {
+        Args: { _code_sha256: string }
+        Returns: string
+      }
+      create_course_password: {
+        Args: { _course_id: string; _password: string }
+        Returns: string
+      }
+      get_video_courses: {
+        Args: { _video_id: string }
+        Returns: {
+          id: string
+          title: string
+        }[]
+      }
+      has_recent_reauthentication: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      has_role: {
+        Args: { _role: Database["public"]["Enums"]["app_role"] }
+        Returns: boolean
+      }
       is_admin: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      is_staff: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_suspended: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      log_impersonation: {
+        Args: { _student_id: string }
+        Returns: undefined
+      }
+      log_service_action: {
+        Args: {
+          _action: string
+          _actor_id: string
+          _new_data: Json
+          _old_data: Json
+          _target_id: string
+          _target_table: string
+          _via: string
+        }
+        Returns: undefined
+      }
+      redeem_course_password: {
+        Args: {
+          _course_id: string
+          _ip_address: string
+          _password: string
+          _user_id: string
+        }
+        Returns: Json
+      }
+      replace_mfa_recovery_codes: {
+        Args: { _codes: string[] }
+        Returns: undefined
+      }
+      reset_user_devices: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
+      revoke_user_device: {
+        Args: { _id: string }
+        Returns: undefined
+      }
+      revoke_user_sessions: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "admin" | "student"
+      app_role: "admin" | "student" | "instructor" | "support"
       subscription_status: "pending" | "active" | "expired"
-      video_status: "processing" | "ready" | "disabled"
+      video_status: "processing" | "ready" | "disabled" | "failed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -415,9 +1091,9 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "student"],
+      app_role: ["admin", "student", "instructor", "support"],
       subscription_status: ["pending", "active", "expired"],
-      video_status: ["processing", "ready", "disabled"],
+      video_status: ["processing", "ready", "disabled", "failed"],
     },
   },
 } as const
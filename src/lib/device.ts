@@ -0,0 +1,40 @@
+const DEVICE_ID_KEY = 'device_id';
+
+// Stable per-browser identifier used to count a student's devices
+export function getDeviceId() {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+// Replaces the identifier after the student revokes this browser, so it is
+// not left holding a revoked id and has to register as a new device
+export function rotateDeviceId() {
+  const deviceId = crypto.randomUUID();
+  localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  return deviceId;
+}
+
+// Short human-readable label from a user agent string
+export function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return 'جهاز غير معروف';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Safari\//.test(userAgent) ? 'Safari' : 'متصفح';
+
+  const os =
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' : '';
+
+  return os ? `${browser} - ${os}` : browser;
+}
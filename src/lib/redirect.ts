@@ -0,0 +1,8 @@
+// Where a route guard sent the user from, so they can be returned there afterwards
+export interface RedirectState {
+  from?: string;
+}
+
+export function redirectTarget(state: unknown, fallback = '/') {
+  return (state as RedirectState | null)?.from || fallback;
+}
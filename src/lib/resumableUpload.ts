@@ -0,0 +1,133 @@
+import { Upload } from 'tus-js-client';
+import { supabase } from '@/integrations/supabase/client';
+
+const RESUMABLE_ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+// Supabase storage only accepts 6 MiB chunks on the resumable endpoint
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const SPEED_WINDOW_MS = 5000;
+const PENDING_UPLOADS_KEY = 'pending_video_uploads';
+
+export interface UploadProgress {
+  bytesUploaded: number;
+  bytesTotal: number;
+  bytesPerSecond: number;
+  secondsLeft: number | null;
+}
+
+// Uploads whose video row exists but whose file has not finished. The File
+// itself cannot survive a reload, so the user selects it again and tus
+// continues from the last stored chunk.
+export interface PendingUpload {
+  videoId: string;
+  filePath: string;
+  title: string;
+  fileName: string;
+  fileSize: number;
+  lastModified: number;
+}
+
+export function getPendingUploads(): PendingUpload[] {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_UPLOADS_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function savePendingUpload(upload: PendingUpload) {
+  const others = getPendingUploads().filter(pending => pending.videoId !== upload.videoId);
+  localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify([...others, upload]));
+}
+
+export function removePendingUpload(videoId: string) {
+  const remaining = getPendingUploads().filter(pending => pending.videoId !== videoId);
+  localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(remaining));
+}
+
+export function findPendingUpload(file: File) {
+  return getPendingUploads().find(pending =>
+    pending.fileName === file.name &&
+    pending.fileSize === file.size &&
+    pending.lastModified === file.lastModified
+  );
+}
+
+interface ResumableUploadOptions {
+  bucket: string;
+  path: string;
+  file: File;
+  onProgress: (progress: UploadProgress) => void;
+  onSuccess: () => void;
+  onError: (error: Error) => void;
+}
+
+// tus upload to Supabase storage that picks up an earlier, unfinished upload
+// of the same file. Call start() to begin or resume and abort() to pause.
+export async function createResumableUpload({ bucket, path, file, onProgress, onSuccess, onError }: ResumableUploadOptions) {
+  let samples: { time: number; bytes: number }[] = [];
+
+  const upload = new Upload(file, {
+    endpoint: RESUMABLE_ENDPOINT,
+    chunkSize: CHUNK_SIZE,
+    retryDelays: [0, 3000, 5000, 10000, 20000],
+    uploadDataDuringCreation: true,
+    removeFingerprintOnSuccess: true,
+    metadata: {
+      bucketName: bucket,
+      objectName: path,
+      contentType: file.type || 'application/octet-stream',
+      cacheControl: '3600',
+    },
+    // Long uploads outlive the access token, so send the current one each time
+    onBeforeRequest: async (req) => {
+      const { data: { session } } = await supabase.auth.getSession();
+      req.setHeader('authorization', `Bearer ${session?.access_token ?? ''}`);
+    },
+    onProgress: (bytesUploaded, bytesTotal) => {
+      const now = Date.now();
+      samples = [...samples.filter(sample => now - sample.time <= SPEED_WINDOW_MS), { time: now, bytes: bytesUploaded }];
+
+      const first = samples[0];
+      const elapsedSeconds = (now - first.time) / 1000;
+      const bytesPerSecond = elapsedSeconds > 0 ? (bytesUploaded - first.bytes) / elapsedSeconds : 0;
+
+      onProgress({
+        bytesUploaded,
+        bytesTotal,
+        bytesPerSecond,
+        secondsLeft: bytesPerSecond > 0 ? Math.ceil((bytesTotal - bytesUploaded) / bytesPerSecond) : null,
+      });
+    },
+    onSuccess: () => onSuccess(),
+    onError: (error) => onError(error),
+  });
+
+  const previousUploads = await upload.findPreviousUploads();
+  if (previousUploads.length > 0) {
+    upload.resumeFromPreviousUpload(previousUploads[0]);
+  }
+
+  // Speed restarts from zero after a pause instead of averaging over it
+  const start = () => {
+    samples = [];
+    upload.start();
+  };
+
+  return { start, abort: () => upload.abort() };
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+export function formatEta(seconds: number | null) {
+  if (seconds === null) return '--';
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return hours > 0
+    ? `${hours}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`
+    : `${mins}:${secs.toString().padStart(2, '0')}`;
+}
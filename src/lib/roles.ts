@@ -0,0 +1,13 @@
+export type AppRole = 'admin' | 'instructor' | 'support' | 'student';
+
+export const roleLabels: Record<AppRole, string> = {
+  admin: 'مسؤول',
+  instructor: 'مدرس',
+  support: 'دعم فني',
+  student: 'طالب',
+};
+
+// Staff roles use the management dashboard instead of the student one
+export function isStaff(role: AppRole) {
+  return role !== 'student';
+}
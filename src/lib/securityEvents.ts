@@ -0,0 +1,102 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { getDeviceId } from '@/lib/device';
+
+export type SecurityEventType = 'sign_in' | 'sign_out' | 'sign_in_failed' | 'password_changed';
+
+export interface SecurityEvent {
+  id: string;
+  event_type: string;
+  device_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export const securityEventLabels: Record<string, string> = {
+  sign_in: 'تسجيل دخول',
+  sign_out: 'تسجيل خروج',
+  sign_in_failed: 'محاولة دخول فاشلة',
+  password_changed: 'تغيير كلمة المرور',
+};
+
+const LAST_SIGN_IN_KEY = 'recorded_sign_in';
+
+// The server adds the IP and user agent; failures never block the auth flow.
+// Failed sign-ins are not reported from here but recorded by the auth server.
+export async function recordAuthEvent(
+  eventType: Exclude<SecurityEventType, 'sign_in_failed'>,
+  extra: { reason?: 'idle_timeout' } = {}
+) {
+  const { error } = await supabase.functions.invoke('record-auth-event', {
+    body: { eventType, deviceId: getDeviceId(), ...extra },
+  });
+
+  if (error) {
+    console.error('Error recording auth event:', error);
+  }
+}
+
+// SIGNED_IN also fires when a stored session is restored, so record each
+// sign-in (identified by last_sign_in_at) only once per browser
+export async function recordSignIn(session: Session) {
+  const key = `${session.user.id}:${session.user.last_sign_in_at}`;
+  if (localStorage.getItem(LAST_SIGN_IN_KEY) === key) return;
+
+  localStorage.setItem(LAST_SIGN_IN_KEY, key);
+  await recordAuthEvent('sign_in');
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_DEVICES_PER_DAY = 3;
+const MAX_IPS_PER_DAY = 4;
+const MAX_FAILURES_PER_HOUR = 5;
+
+export interface UnusualActivity {
+  label: string;
+  at: string;
+}
+
+// Largest number of distinct values seen inside any window of the given length
+const peakDistinct = (events: SecurityEvent[], windowMs: number, valueOf: (event: SecurityEvent) => string | null) => {
+  const sorted = [...events].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+  let peak = { count: 0, at: '' };
+
+  sorted.forEach((event, index) => {
+    const end = Date.parse(event.created_at);
+    const values = new Set<string>();
+    for (let i = index; i >= 0 && end - Date.parse(sorted[i].created_at) <= windowMs; i--) {
+      const value = valueOf(sorted[i]);
+      if (value) values.add(value);
+    }
+    if (values.size > peak.count) {
+      peak = { count: values.size, at: event.created_at };
+    }
+  });
+
+  return peak;
+};
+
+export function detectUnusualActivity(events: SecurityEvent[]) {
+  const signIns = events.filter(event => event.event_type === 'sign_in');
+  const failures = events.filter(event => event.event_type === 'sign_in_failed');
+  const flags: UnusualActivity[] = [];
+
+  const devices = peakDistinct(signIns, DAY_MS, event => event.device_id);
+  if (devices.count >= MAX_DEVICES_PER_DAY) {
+    flags.push({ label: `تسجيل دخول من ${devices.count} أجهزة مختلفة خلال يوم واحد`, at: devices.at });
+  }
+
+  const ips = peakDistinct(signIns, DAY_MS, event => event.ip_address);
+  if (ips.count >= MAX_IPS_PER_DAY) {
+    flags.push({ label: `تسجيل دخول من ${ips.count} عناوين IP مختلفة خلال يوم واحد`, at: ips.at });
+  }
+
+  const failedAttempts = peakDistinct(failures, HOUR_MS, event => event.id);
+  if (failedAttempts.count >= MAX_FAILURES_PER_HOUR) {
+    flags.push({ label: `${failedAttempts.count} محاولات دخول فاشلة خلال ساعة`, at: failedAttempts.at });
+  }
+
+  return flags;
+}
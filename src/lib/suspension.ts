@@ -0,0 +1,9 @@
+interface SuspensionFields {
+  suspended_at: string | null;
+  suspended_until: string | null;
+}
+
+// Mirrors is_suspended() in the database: no end date means until lifted
+export function isSuspended(profile: SuspensionFields) {
+  return !!profile.suspended_at && (!profile.suspended_until || new Date(profile.suspended_until) > new Date());
+}
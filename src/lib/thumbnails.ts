@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+
+interface ThumbnailSource {
+  thumbnail_path?: string | null;
+  video_type?: string | null;
+  video_url?: string | null;
+}
+
+// Video id from the YouTube URL shapes admins paste (watch, youtu.be, embed, shorts)
+export function getYouTubeId(url: string | null | undefined) {
+  if (!url) return null;
+
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace('www.', '');
+
+    if (host === 'youtu.be') {
+      return parsed.pathname.slice(1) || null;
+    }
+    if (host.endsWith('youtube.com')) {
+      const match = parsed.pathname.match(/^\/(?:embed|shorts)\/([^/?]+)/);
+      return parsed.searchParams.get('v') ?? match?.[1] ?? null;
+    }
+  } catch {
+    // Not a URL
+  }
+  return null;
+}
+
+// Public URL of a video's thumbnail: the stored one, else the provider's
+// thumbnail for external videos, else null
+export function getThumbnailUrl(video: ThumbnailSource) {
+  if (video.thumbnail_path) {
+    return supabase.storage.from('thumbnails').getPublicUrl(video.thumbnail_path).data.publicUrl;
+  }
+
+  if (video.video_type === 'url') {
+    const youTubeId = getYouTubeId(video.video_url);
+    if (youTubeId) return `https://i.ytimg.com/vi/${youTubeId}/hqdefault.jpg`;
+  }
+
+  return null;
+}
@@ -0,0 +1,110 @@
+import { supabase } from '@/integrations/supabase/client';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import {
+  createResumableUpload,
+  findPendingUpload,
+  removePendingUpload,
+  savePendingUpload,
+  type PendingUpload,
+  type UploadProgress,
+} from '@/lib/resumableUpload';
+
+// Error codes returned by the process-video-upload function
+const processErrorMessages: Record<string, string> = {
+  unauthorized: 'انتهت الجلسة، يرجى تسجيل الدخول مرة أخرى',
+  forbidden: 'ليست لديك صلاحية لإدارة هذا الفيديو',
+  invalid_request: 'بيانات الفيديو غير صالحة',
+  not_found: 'لم يتم العثور على الفيديو',
+  invalid_state: 'هذا الفيديو في قائمة المعالجة أو تمت معالجته من قبل',
+  missing_upload: 'لم يتم العثور على الملف المرفوع، يرجى إعادة الرفع',
+};
+
+// Video row and storage path for a file upload. A file matching an unfinished
+// upload reuses its row, unless that row was cleaned up in Video Management.
+export async function prepareVideoUpload(file: File, title: string, description: string) {
+  const pending = findPendingUpload(file);
+
+  if (pending) {
+    const { data: existing } = await supabase
+      .from('videos')
+      .select('id')
+      .eq('id', pending.videoId)
+      .maybeSingle();
+
+    if (existing) return pending;
+    removePendingUpload(pending.videoId);
+  }
+
+  // Uploads live under the uploader's folder; the storage policies require it
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Not authenticated');
+
+  const filePath = `videos/${session.user.id}/${Date.now()}-${file.name}`;
+  const { data: video, error } = await supabase
+    .from('videos')
+    .insert({
+      title,
+      description,
+      file_path: filePath,
+      video_type: 'file',
+      status: 'processing'
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const upload: PendingUpload = {
+    videoId: video.id,
+    filePath,
+    title,
+    fileName: file.name,
+    fileSize: file.size,
+    lastModified: file.lastModified,
+  };
+  savePendingUpload(upload);
+  return upload;
+}
+
+interface UploadVideoFileOptions {
+  onProgress: (progress: UploadProgress) => void;
+  // Receives the controls once the upload exists, for pausing
+  onCreated?: (upload: { start: () => void; abort: () => void }) => void;
+}
+
+// Resolves once the whole file is stored; stays pending while paused
+export function uploadVideoFile(file: File, upload: PendingUpload, { onProgress, onCreated }: UploadVideoFileOptions) {
+  return new Promise<void>((resolve, reject) => {
+    createResumableUpload({
+      bucket: 'videos',
+      path: upload.filePath,
+      file,
+      onProgress,
+      onSuccess: () => {
+        removePendingUpload(upload.videoId);
+        resolve();
+      },
+      onError: reject,
+    })
+      .then((resumable) => {
+        onCreated?.(resumable);
+        resumable.start();
+      })
+      .catch(reject);
+  });
+}
+
+// Queues the stored file for the media worker. Returns an error message, or
+// null once the video is queued.
+export async function startVideoProcessing(videoId: string, title: string, description: string) {
+  const { error } = await supabase.functions.invoke('process-video-upload', {
+    body: { videoId, title, description },
+  });
+
+  if (!error) return null;
+
+  const details = error instanceof FunctionsHttpError
+    ? await error.context.json().catch(() => null)
+    : null;
+  return processErrorMessages[details?.error] || error.message;
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,21 +7,26 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
+import { redirectTarget } from '@/lib/redirect';
 import { useEffect } from 'react';
 
 const Auth = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signIn, signUp, user } = useAuth();
+  const [magicLinkSent, setMagicLinkSent] = useState(false);
+  const [unconfirmedEmail, setUnconfirmedEmail] = useState<string | null>(null);
+  const { signIn, signUp, signInWithMagicLink, resendConfirmation, user } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
+  const location = useLocation();
+  const returnTo = redirectTarget(location.state);
 
   useEffect(() => {
     if (user) {
-      navigate('/');
+      navigate(returnTo, { replace: true });
     }
-  }, [user, navigate]);
+  }, [user, navigate, returnTo]);
 
   const handleSignIn = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,7 +34,14 @@ const Auth = () => {
 
     const { error } = await signIn(email, password);
 
-    if (error) {
+    if (error?.code === 'email_not_confirmed') {
+      setUnconfirmedEmail(email);
+      toast({
+        title: 'الحساب غير مفعل',
+        description: 'يجب تأكيد بريدك الإلكتروني قبل تسجيل الدخول',
+        variant: 'destructive',
+      });
+    } else if (error) {
       toast({
         title: 'خطأ',
         description: error.message,
@@ -40,7 +52,7 @@ const Auth = () => {
         title: 'نجح الدخول',
         description: 'تم تسجيل الدخول بنجاح!',
       });
-      navigate('/');
+      navigate(returnTo, { replace: true });
     }
 
     setLoading(false);
@@ -59,6 +71,7 @@ const Auth = () => {
         variant: 'destructive',
       });
     } else {
+      setUnconfirmedEmail(email);
       toast({
         title: 'تم إنشاء الحساب',
         description: 'تم إنشاء الحساب بنجاح! تحقق من بريدك الإلكتروني للتفعيل.',
@@ -68,6 +81,47 @@ const Auth = () => {
     setLoading(false);
   };
 
+  const handleMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    const { error } = await signInWithMagicLink(email, returnTo);
+
+    if (error) {
+      toast({
+        title: 'خطأ',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setMagicLinkSent(true);
+    }
+
+    setLoading(false);
+  };
+
+  const handleResendConfirmation = async () => {
+    if (!unconfirmedEmail) return;
+    setLoading(true);
+
+    const { error } = await resendConfirmation(unconfirmedEmail);
+
+    if (error) {
+      toast({
+        title: 'خطأ',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'تم الإرسال',
+        description: 'تم إرسال رسالة التفعيل مرة أخرى إلى بريدك الإلكتروني',
+      });
+    }
+
+    setLoading(false);
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center hero-gradient p-4">
       <Card className="w-full max-w-md card-shadow">
@@ -78,9 +132,21 @@ const Auth = () => {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {unconfirmedEmail && (
+            <div className="mb-4 p-3 border rounded-lg bg-muted/50 text-sm space-y-2">
+              <p>
+                لم يتم تأكيد البريد <span dir="ltr">{unconfirmedEmail}</span> بعد. لم تصلك رسالة التفعيل؟
+              </p>
+              <Button variant="outline" size="sm" className="w-full" onClick={handleResendConfirmation} disabled={loading}>
+                إعادة إرسال رسالة التفعيل
+              </Button>
+            </div>
+          )}
+
           <Tabs defaultValue="signin" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="signin">تسجيل الدخول</TabsTrigger>
+              <TabsTrigger value="magic">رابط الدخول</TabsTrigger>
               <TabsTrigger value="signup">إنشاء حساب</TabsTrigger>
             </TabsList>
             
@@ -111,8 +177,46 @@ const Auth = () => {
                 <Button type="submit" className="w-full" disabled={loading}>
                   {loading ? 'جاري تسجيل الدخول...' : 'تسجيل الدخول'}
                 </Button>
+                <div className="text-center">
+                  <Link to="/forgot-password" className="text-sm text-primary hover:underline">
+                    نسيت كلمة المرور؟
+                  </Link>
+                </div>
               </form>
             </TabsContent>
+
+            <TabsContent value="magic">
+              {magicLinkSent ? (
+                <div className="space-y-4 text-center">
+                  <p className="text-sm">
+                    تم إرسال رابط الدخول إلى <span dir="ltr">{email}</span>. افتح الرابط من نفس المتصفح لإكمال تسجيل الدخول.
+                  </p>
+                  <Button variant="outline" className="w-full" onClick={() => setMagicLinkSent(false)}>
+                    إرسال رابط جديد
+                  </Button>
+                </div>
+              ) : (
+                <form onSubmit={handleMagicLink} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="magic-email">البريد الإلكتروني</Label>
+                    <Input
+                      id="magic-email"
+                      type="email"
+                      placeholder="أدخل بريدك الإلكتروني"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={loading}>
+                    {loading ? 'جاري الإرسال...' : 'إرسال رابط الدخول'}
+                  </Button>
+                  <p className="text-sm text-muted-foreground text-center">
+                    سنرسل لك رابطاً لتسجيل الدخول بدون كلمة مرور.
+                  </p>
+                </form>
+              )}
+            </TabsContent>
             
             <TabsContent value="signup">
               <form onSubmit={handleSignUp} className="space-y-4">
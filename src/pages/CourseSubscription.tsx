@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { supabase } from '@/integrations/supabase/client';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { useToast } from '@/hooks/use-toast';
 import { MessageCircle, Upload, Eye, EyeOff } from 'lucide-react';
 import NavigationHeader from '@/components/NavigationHeader';
@@ -35,11 +36,7 @@ const CourseSubscription = () => {
   const [paymentFile, setPaymentFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
 
-  useEffect(() => {
-    fetchCourse();
-  }, [courseId]);
-
-  const fetchCourse = async () => {
+  const fetchCourse = useCallback(async () => {
     if (!courseId) return;
     
     try {
@@ -63,58 +60,55 @@ const CourseSubscription = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [courseId, toast, navigate]);
+
+  useEffect(() => {
+    fetchCourse();
+  }, [courseId, fetchCourse]);
 
   const handlePasswordSubscription = async () => {
     if (!password.trim() || !course || !user) return;
 
     setUploading(true);
     try {
-      // Check if password exists and is valid
-      const { data: passwordData, error: passwordError } = await supabase
-        .from('course_passwords')
-        .select('*')
-        .eq('course_id', course.id)
-        .eq('password', password.trim())
-        .eq('used', false)
-        .gt('expires_at', new Date().toISOString())
-        .single();
+      // Redeem the password server-side; the check, marking it used and the
+      // subscription activation all happen in one transaction
+      const { data, error } = await supabase.functions.invoke('redeem-course-password', {
+        body: {
+          courseId: course.id,
+          password: password.trim(),
+        },
+      });
 
-      if (passwordError || !passwordData) {
-        toast({
-          title: "خطأ",
-          description: "كلمة المرور غير صحيحة أو منتهية الصلاحية",
-          variant: "destructive"
-        });
-        return;
+      if (error) {
+        const details = error instanceof FunctionsHttpError
+          ? await error.context.json().catch(() => null)
+          : null;
+
+        if (details?.error === 'invalid_password') {
+          toast({
+            title: "خطأ",
+            description: "كلمة المرور غير صحيحة أو منتهية الصلاحية",
+            variant: "destructive"
+          });
+          return;
+        }
+
+        if (details?.error === 'too_many_attempts') {
+          toast({
+            title: "خطأ",
+            description: `محاولات خاطئة كثيرة. يمكنك المحاولة مرة أخرى بعد ${new Date(details.lockedUntil).toLocaleTimeString('ar-SA')}`,
+            variant: "destructive"
+          });
+          return;
+        }
+
+        throw error;
       }
 
-      // Create active subscription
-      const startDate = new Date();
-      const endDate = new Date();
-      endDate.setMonth(endDate.getMonth() + course.duration_months);
-
-      const { error: subscriptionError } = await supabase
-        .from('subscriptions')
-        .upsert({
-          user_id: user.id,
-          course_id: course.id,
-          status: 'active',
-          start_date: startDate.toISOString(),
-          end_date: endDate.toISOString()
-        });
-
-      if (subscriptionError) throw subscriptionError;
-
-      // Mark password as used
-      await supabase
-        .from('course_passwords')
-        .update({ used: true })
-        .eq('id', passwordData.id);
-
       toast({
         title: "تم بنجاح",
-        description: "تم تفعيل اشتراكك في الكورس بنجاح",
+        description: `تم تفعيل اشتراكك في الكورس بنجاح حتى ${new Date(data.endDate).toLocaleDateString('ar-SA')}`,
       });
 
       navigate(`/course/${course.id}`);
@@ -145,7 +139,7 @@ const CourseSubscription = () => {
 
       if (uploadError) throw uploadError;
 
-      // Create pending subscription
+      // Create (or resubmit) a pending subscription request; activation is admin-only
       const { error: subscriptionError } = await supabase
         .from('subscriptions')
         .upsert({
@@ -153,7 +147,7 @@ const CourseSubscription = () => {
           course_id: course.id,
           status: 'pending',
           payment_proof: uploadData.path
-        });
+        }, { onConflict: 'user_id,course_id' });
 
       if (subscriptionError) throw subscriptionError;
 
@@ -182,19 +176,6 @@ const CourseSubscription = () => {
     );
   };
 
-  if (!user) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background">
-        <Card className="w-full max-w-md">
-          <CardHeader className="text-center">
-            <CardTitle>مطلوب تسجيل الدخول</CardTitle>
-            <CardDescription>يرجى تسجيل الدخول للاشتراك في الكورس</CardDescription>
-          </CardHeader>
-        </Card>
-      </div>
-    );
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
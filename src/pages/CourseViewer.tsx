@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useImpersonation } from '@/hooks/useImpersonation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
@@ -9,6 +10,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Play, Clock, CheckCircle } from 'lucide-react';
 import NavigationHeader from '@/components/NavigationHeader';
+import VideoThumbnail from '@/components/VideoThumbnail';
 import { Link } from 'react-router-dom';
 
 interface Course {
@@ -22,10 +24,10 @@ interface Video {
   id: string;
   title: string;
   description: string;
-  file_path: string;
   video_url: string;
   video_type: string;
   duration_seconds: number;
+  thumbnail_path: string | null;
   status: string;
 }
 
@@ -46,6 +48,8 @@ const CourseViewer = () => {
   const { courseId } = useParams();
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { impersonating } = useImpersonation();
+  const viewerId = impersonating?.user_id ?? user?.id;
   const { toast } = useToast();
   
   const [course, setCourse] = useState<Course | null>(null);
@@ -53,14 +57,8 @@ const CourseViewer = () => {
   const [subscription, setSubscription] = useState<UserSubscription | null>(null);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    if (user && courseId) {
-      fetchCourseData();
-    }
-  }, [user, courseId]);
-
-  const fetchCourseData = async () => {
-    if (!courseId || !user) return;
+  const fetchCourseData = useCallback(async () => {
+    if (!courseId || !viewerId) return;
 
     try {
       // Fetch course details
@@ -78,7 +76,7 @@ const CourseViewer = () => {
       const { data: subscriptionData, error: subscriptionError } = await supabase
         .from('subscriptions')
         .select('*')
-        .eq('user_id', user.id)
+        .eq('user_id', viewerId)
         .eq('course_id', courseId)
         .eq('status', 'active')
         .gte('end_date', new Date().toISOString())
@@ -94,7 +92,7 @@ const CourseViewer = () => {
           description: "يجب الاشتراك في الكورس أولاً لمشاهدة المحتوى",
           variant: "destructive"
         });
-        navigate(`/course/${courseId}/subscribe`);
+        navigate(impersonating ? '/courses' : `/course/${courseId}/subscribe`);
         return;
       }
 
@@ -106,19 +104,18 @@ const CourseViewer = () => {
         .select(`
           id,
           order_index,
-          video:videos (
+          video:viewable_videos!inner (
             id,
             title,
             description,
-            file_path,
             video_url,
             video_type,
             duration_seconds,
+            thumbnail_path,
             status
           )
         `)
         .eq('course_id', courseId)
-        .eq('video.status', 'ready')
         .order('order_index');
 
       if (videosError) throw videosError;
@@ -135,7 +132,13 @@ const CourseViewer = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [courseId, viewerId, impersonating, toast, navigate]);
+
+  useEffect(() => {
+    if (viewerId && courseId) {
+      fetchCourseData();
+    }
+  }, [viewerId, courseId, fetchCourseData]);
 
   const formatDuration = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
@@ -151,19 +154,6 @@ const CourseViewer = () => {
     return diffDays;
   };
 
-  if (!user) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background">
-        <Card className="w-full max-w-md">
-          <CardHeader className="text-center">
-            <CardTitle>مطلوب تسجيل الدخول</CardTitle>
-            <CardDescription>يرجى تسجيل الدخول لعرض الكورس</CardDescription>
-          </CardHeader>
-        </Card>
-      </div>
-    );
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -243,6 +233,7 @@ const CourseViewer = () => {
                         <div className="w-8 h-8 rounded-full bg-primary text-primary-foreground flex items-center justify-center text-sm font-bold">
                           {index + 1}
                         </div>
+                        <VideoThumbnail video={courseVideo.video} className="w-28" />
                         <div className="flex-1">
                           <h3 className="font-semibold text-foreground">{courseVideo.video.title}</h3>
                           <p className="text-sm text-muted-foreground line-clamp-2">
@@ -263,12 +254,19 @@ const CourseViewer = () => {
                       </div>
                       
                       <div className="flex items-center gap-2">
-                        <Link to={`/video/${courseVideo.video.id}`}>
-                          <Button size="sm">
+                        {impersonating ? (
+                          <Button size="sm" disabled>
                             <Play className="h-4 w-4 ml-1" />
                             تشغيل
                           </Button>
-                        </Link>
+                        ) : (
+                          <Link to={`/video/${courseVideo.video.id}`}>
+                            <Button size="sm">
+                              <Play className="h-4 w-4 ml-1" />
+                              تشغيل
+                            </Button>
+                          </Link>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -288,11 +286,13 @@ const CourseViewer = () => {
                     سينتهي اشتراكك في هذا الكورس خلال {daysRemaining} {daysRemaining === 1 ? 'يوم' : 'أيام'}
                   </p>
                 </div>
-                <Link to={`/course/${courseId}/subscribe`}>
-                  <Button variant="outline" size="sm">
-                    جدد الاشتراك
-                  </Button>
-                </Link>
+                {!impersonating && (
+                  <Link to={`/course/${courseId}/subscribe`}>
+                    <Button variant="outline" size="sm">
+                      جدد الاشتراك
+                    </Button>
+                  </Link>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
+import { useImpersonation } from '@/hooks/useImpersonation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -29,20 +30,15 @@ interface UserSubscription {
 
 const Courses = () => {
   const { user } = useAuth();
+  const { impersonating } = useImpersonation();
+  const viewerId = impersonating?.user_id ?? user?.id;
   const { toast } = useToast();
   const navigate = useNavigate();
   const [courses, setCourses] = useState<Course[]>([]);
   const [subscriptions, setSubscriptions] = useState<UserSubscription[]>([]);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    fetchCourses();
-    if (user) {
-      fetchUserSubscriptions();
-    }
-  }, [user]);
-
-  const fetchCourses = async () => {
+  const fetchCourses = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('courses')
@@ -62,23 +58,30 @@ const Courses = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [toast]);
 
-  const fetchUserSubscriptions = async () => {
-    if (!user) return;
+  const fetchUserSubscriptions = useCallback(async () => {
+    if (!viewerId) return;
     
     try {
       const { data, error } = await supabase
         .from('subscriptions')
         .select('*')
-        .eq('user_id', user.id);
+        .eq('user_id', viewerId);
 
       if (error) throw error;
       setSubscriptions(data || []);
     } catch (error) {
       console.error('Error fetching subscriptions:', error);
     }
-  };
+  }, [viewerId]);
+
+  useEffect(() => {
+    fetchCourses();
+    if (viewerId) {
+      fetchUserSubscriptions();
+    }
+  }, [viewerId, fetchCourses, fetchUserSubscriptions]);
 
   const getSubscriptionStatus = (courseId: string) => {
     const subscription = subscriptions.find(s => s.course_id === courseId);
@@ -96,24 +99,6 @@ const Courses = () => {
     return { status: subscription.status };
   };
 
-  if (!user) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background">
-        <Card className="w-full max-w-md">
-          <CardHeader className="text-center">
-            <CardTitle>مطلوب تسجيل الدخول</CardTitle>
-            <CardDescription>يرجى تسجيل الدخول لعرض الكورسات</CardDescription>
-          </CardHeader>
-          <CardContent className="text-center">
-            <Link to="/auth">
-              <Button>تسجيل الدخول</Button>
-            </Link>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -199,6 +184,10 @@ const Courses = () => {
                           سيتم تفعيل اشتراكك بعد مراجعة الإدارة
                         </p>
                       </div>
+                    ) : impersonating ? (
+                      <Button variant="outline" className="w-full" disabled>
+                        {subscriptionStatus?.status === 'expired' ? 'منتهي' : 'غير مشترك'}
+                      </Button>
                     ) : subscriptionStatus?.status === 'expired' ? (
                       <Link to={`/course/${course.id}/subscribe`}>
                         <Button variant="outline" className="w-full">جدد الاشتراك</Button>
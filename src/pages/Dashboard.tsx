@@ -1,48 +1,21 @@
 import { useAuth } from '@/hooks/useAuth';
+import { useImpersonation } from '@/hooks/useImpersonation';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import AdminDashboard from '@/components/AdminDashboard';
 import StudentDashboard from '@/components/StudentDashboard';
+import AdminMfaGate from '@/components/AdminMfaGate';
+import { isStaff, roleLabels } from '@/lib/roles';
 
 const Dashboard = () => {
   const { profile, signOut } = useAuth();
+  const { impersonating } = useImpersonation();
 
   const handleSignOut = async () => {
     await signOut();
   };
 
-  if (!profile) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background">
-        <Card className="w-full max-w-md card-shadow">
-          <CardHeader className="text-center">
-            <CardTitle>جاري التحميل...</CardTitle>
-            <CardDescription>يرجى الانتظار أثناء تحميل ملفك الشخصي.</CardDescription>
-          </CardHeader>
-        </Card>
-      </div>
-    );
-  }
-
-  if (!profile.approved && profile.role === 'student') {
-    return (
-      <div className="min-h-screen flex items-center justify-center hero-gradient p-4">
-        <Card className="w-full max-w-md card-shadow">
-          <CardHeader className="text-center">
-            <CardTitle className="text-xl text-primary">في انتظار الموافقة</CardTitle>
-            <CardDescription className="text-base">
-              حسابك في انتظار موافقة المسؤول. يرجى الانتظار لحين موافقة المسؤول على دخولك للمنصة.
-            </CardDescription>
-          </CardHeader>
-          <CardContent className="text-center">
-            <Button onClick={handleSignOut} variant="outline" className="hover-lift">
-              تسجيل الخروج
-            </Button>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
+  // RequireAuth guarantees the profile; RequireApproved handles pending students
+  if (!profile) return null;
 
   return (
     <div className="min-h-screen bg-background">
@@ -50,7 +23,7 @@ const Dashboard = () => {
         <div className="container mx-auto px-4 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold text-primary">منصة التعلم الآمنة</h1>
           <div className="flex items-center gap-4">
-            {profile.role === 'student' && profile.approved && (
+            {((profile.role === 'student' && profile.approved) || impersonating) && (
               <Button
                 onClick={() => window.location.href = '/courses'}
                 variant="outline"
@@ -60,10 +33,28 @@ const Dashboard = () => {
                 تصفح الكورسات
               </Button>
             )}
+            {profile.role === 'student' && profile.approved && (
+              <Button
+                onClick={() => window.location.href = '/devices'}
+                variant="outline"
+                size="sm"
+                className="hover-lift"
+              >
+                أجهزتي
+              </Button>
+            )}
+            <Button
+              onClick={() => window.location.href = '/profile'}
+              variant="outline"
+              size="sm"
+              className="hover-lift"
+            >
+              حسابي
+            </Button>
             <div className="text-left">
               <span className="text-sm font-medium text-foreground block">{profile.email}</span>
               <span className="text-xs text-muted-foreground">
-                {profile.role === 'admin' ? 'مسؤول' : 'طالب'}
+                {roleLabels[profile.role]}
               </span>
             </div>
             <Button onClick={handleSignOut} variant="outline" size="sm" className="hover-lift">
@@ -74,7 +65,11 @@ const Dashboard = () => {
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        {profile.role === 'admin' ? <AdminDashboard /> : <StudentDashboard />}
+        {profile.role === 'admin' ? (
+          <AdminMfaGate>
+            {impersonating ? <StudentDashboard /> : <AdminDashboard />}
+          </AdminMfaGate>
+        ) : isStaff(profile.role) ? <AdminDashboard /> : <StudentDashboard />}
       </main>
     </div>
   );
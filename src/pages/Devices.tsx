@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { getDeviceId, rotateDeviceId, describeUserAgent } from '@/lib/device';
+import { Monitor, Trash2 } from 'lucide-react';
+import NavigationHeader from '@/components/NavigationHeader';
+
+interface UserDevice {
+  id: string;
+  device_id: string;
+  user_agent: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+  revoked_at: string | null;
+}
+
+const Devices = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [devices, setDevices] = useState<UserDevice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentDeviceId, setCurrentDeviceId] = useState(getDeviceId);
+
+  const fetchDevices = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('user_devices')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('last_seen_at', { ascending: false });
+
+      if (error) throw error;
+      setDevices(data || []);
+    } catch (error) {
+      console.error('Error fetching devices:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في تحميل الأجهزة",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (user) {
+      fetchDevices();
+    }
+  }, [user, fetchDevices]);
+
+  const revokeDevice = async (device: UserDevice) => {
+    if (!confirm('هل أنت متأكد من إيقاف هذا الجهاز؟ لن يتمكن من تشغيل الفيديوهات بعد الآن.')) return;
+
+    try {
+      const { error } = await supabase.rpc('revoke_user_device', { _id: device.id });
+
+      if (error) throw error;
+
+      if (device.device_id === currentDeviceId) {
+        setCurrentDeviceId(rotateDeviceId());
+      }
+
+      toast({
+        title: "تم الإيقاف",
+        description: "تم إيقاف الجهاز بنجاح"
+      });
+
+      fetchDevices();
+    } catch (error) {
+      console.error('Error revoking device:', error);
+      toast({
+        title: "خطأ",
+        description: (error as { message?: string })?.message === 'revoke_limit'
+          ? "لقد أوقفت الحد الأقصى من الأجهزة خلال آخر 30 يوماً. تواصل مع الإدارة لإعادة تعيين أجهزتك"
+          : "فشل في إيقاف الجهاز",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">جاري تحميل الأجهزة...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader
+        title="أجهزتي"
+        subtitle="الأجهزة التي شاهدت منها الفيديوهات بحسابك"
+        showBackButton={true}
+        backTo="/"
+        backLabel="العودة للوحة التحكم"
+      />
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Monitor className="h-5 w-5" />
+              الأجهزة المسجلة
+            </CardTitle>
+            <CardDescription>
+              عدد الأجهزة المسموح بها لكل حساب محدود. أوقف الأجهزة التي لم تعد تستخدمها، ويمكنك إيقاف جهازين كل 30 يوماً.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {devices.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                لم يتم تسجيل أي جهاز بعد
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {devices.map((device) => (
+                  <div key={device.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{describeUserAgent(device.user_agent)}</p>
+                        {device.device_id === currentDeviceId && (
+                          <Badge variant="default">هذا الجهاز</Badge>
+                        )}
+                        {device.revoked_at && (
+                          <Badge variant="destructive">موقوف</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        آخر استخدام: {new Date(device.last_seen_at).toLocaleString('ar-SA')}
+                      </p>
+                    </div>
+                    {!device.revoked_at && (
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => revokeDevice(device)}
+                      >
+                        <Trash2 className="h-4 w-4 ml-1" />
+                        إيقاف
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Devices;
@@ -1,34 +0,0 @@
-import { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useAuth } from '@/hooks/useAuth';
-import Dashboard from './Dashboard';
-
-const Index = () => {
-  const { user, loading } = useAuth();
-  const navigate = useNavigate();
-
-  useEffect(() => {
-    if (!loading && !user) {
-      navigate('/auth');
-    }
-  }, [user, loading, navigate]);
-
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center hero-gradient">
-        <div className="text-center">
-          <h1 className="text-3xl font-bold mb-4 text-primary">جاري التحميل...</h1>
-          <p className="text-foreground">يرجى الانتظار أثناء المصادقة على هويتك.</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (!user) {
-    return null; // Will redirect to /auth
-  }
-
-  return <Dashboard />;
-};
-
-export default Index;
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { redirectTarget } from '@/lib/redirect';
+import { isSuspended } from '@/lib/suspension';
+
+const PendingApproval = () => {
+  const { profile, signOut, refreshProfile } = useAuth();
+  const { toast } = useToast();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [checking, setChecking] = useState(false);
+
+  const canEnter = (current: typeof profile) =>
+    !!current && (current.role !== 'student' || current.approved) && !isSuspended(current);
+
+  // Once approved, continue to the page the student originally asked for
+  if (canEnter(profile)) {
+    return <Navigate to={redirectTarget(location.state)} replace />;
+  }
+
+  const suspended = !!profile && isSuspended(profile);
+
+  const handleCheckAgain = async () => {
+    setChecking(true);
+    const updated = await refreshProfile();
+    setChecking(false);
+
+    if (canEnter(updated)) return;
+
+    toast({
+      title: suspended ? 'الحساب ما زال موقوفاً' : 'لم تتم الموافقة بعد',
+      description: suspended ? 'لم يتم رفع الإيقاف عن حسابك بعد' : 'حسابك ما زال في انتظار موافقة المسؤول',
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center hero-gradient p-4">
+      <Card className="w-full max-w-md card-shadow">
+        <CardHeader className="text-center">
+          {suspended ? (
+            <>
+              <CardTitle className="text-xl text-destructive">تم إيقاف حسابك</CardTitle>
+              <CardDescription className="text-base">
+                {profile?.suspended_until
+                  ? `حسابك موقوف حتى ${new Date(profile.suspended_until).toLocaleString('ar-SA')}.`
+                  : 'حسابك موقوف حتى يقوم المسؤول برفع الإيقاف.'}
+              </CardDescription>
+            </>
+          ) : (
+            <>
+              <CardTitle className="text-xl text-primary">في انتظار الموافقة</CardTitle>
+              <CardDescription className="text-base">
+                حسابك في انتظار موافقة المسؤول. يرجى الانتظار لحين موافقة المسؤول على دخولك للمنصة.
+              </CardDescription>
+            </>
+          )}
+        </CardHeader>
+        {suspended && profile?.suspension_reason && (
+          <CardContent>
+            <div className="p-3 border rounded-lg bg-muted/50 text-sm">
+              <span className="font-medium">السبب: </span>
+              {profile.suspension_reason}
+            </div>
+          </CardContent>
+        )}
+        <CardContent className="flex justify-center gap-2">
+          <Button onClick={handleCheckAgain} disabled={checking} className="hover-lift">
+            {checking ? 'جاري التحقق...' : 'تحقق مرة أخرى'}
+          </Button>
+          <Button onClick={() => navigate('/profile')} variant="outline" className="hover-lift">
+            حسابي
+          </Button>
+          <Button onClick={signOut} variant="outline" className="hover-lift">
+            تسجيل الخروج
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default PendingApproval;
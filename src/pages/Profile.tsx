@@ -0,0 +1,355 @@
+import { useState, useEffect, useCallback } from 'react';
+import JSZip from 'jszip';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { roleLabels } from '@/lib/roles';
+import { Download, FileArchive, History, Trash2, UserCircle } from 'lucide-react';
+import NavigationHeader from '@/components/NavigationHeader';
+import SecurityEventsList from '@/components/SecurityEventsList';
+
+interface DeletionRequest {
+  id: string;
+  reason: string | null;
+  status: string;
+  created_at: string;
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const Profile = () => {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [deletionRequest, setDeletionRequest] = useState<DeletionRequest | null>(null);
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchDeletionRequest = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('account_deletion_requests')
+        .select('id, reason, status, created_at')
+        .eq('user_id', user.id)
+        .in('status', ['pending', 'approved'])
+        .maybeSingle();
+
+      if (error) throw error;
+      setDeletionRequest(data);
+    } catch (error) {
+      console.error('Error fetching deletion request:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchDeletionRequest();
+    }
+  }, [user, fetchDeletionRequest]);
+
+  // Everything stored about the user, gathered with their own RLS rights
+  const collectExportData = async () => {
+    if (!user) throw new Error('Not signed in');
+
+    const { data: profileData, error: profileError } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('user_id', user.id)
+      .single();
+
+    if (profileError) throw profileError;
+
+    const { data: subscriptionsData, error: subscriptionsError } = await supabase
+      .from('subscriptions')
+      .select('*')
+      .eq('user_id', user.id);
+
+    if (subscriptionsError) throw subscriptionsError;
+
+    const courseIds = [...new Set((subscriptionsData || []).map(subscription => subscription.course_id))];
+
+    const { data: coursesData, error: coursesError } = courseIds.length
+      ? await supabase.from('courses').select('id, title').in('id', courseIds)
+      : { data: [], error: null };
+
+    if (coursesError) throw coursesError;
+
+    const { data: grantsData, error: grantsError } = await supabase
+      .from('video_access')
+      .select('video_id, granted_at, expires_at')
+      .eq('user_id', user.id);
+
+    if (grantsError) throw grantsError;
+
+    const { data: receiptFiles, error: receiptsError } = await supabase.storage
+      .from('payment-receipts')
+      .list(user.id, { limit: 1000 });
+
+    if (receiptsError) throw receiptsError;
+
+    return {
+      exported_at: new Date().toISOString(),
+      account: {
+        id: user.id,
+        email: user.email,
+        created_at: user.created_at,
+        last_sign_in_at: user.last_sign_in_at,
+      },
+      profile: profileData,
+      subscriptions: (subscriptionsData || []).map(subscription => ({
+        ...subscription,
+        course_title: coursesData?.find(c => c.id === subscription.course_id)?.title ?? null
+      })),
+      video_access: grantsData || [],
+      payment_receipts: (receiptFiles || []).map(file => ({
+        path: `${user.id}/${file.name}`,
+        uploaded_at: file.created_at,
+      })),
+    };
+  };
+
+  const exportData = async (format: 'json' | 'zip') => {
+    if (!user) return;
+
+    setExporting(true);
+    try {
+      const exportPayload = await collectExportData();
+      const json = JSON.stringify(exportPayload, null, 2);
+      const date = new Date().toISOString().slice(0, 10);
+
+      if (format === 'json') {
+        downloadBlob(new Blob([json], { type: 'application/json' }), `my-data-${date}.json`);
+      } else {
+        const zip = new JSZip();
+        zip.file('data.json', json);
+
+        for (const receipt of exportPayload.payment_receipts) {
+          const { data: fileBlob, error: downloadError } = await supabase.storage
+            .from('payment-receipts')
+            .download(receipt.path);
+
+          if (downloadError) throw downloadError;
+          zip.file(`receipts/${receipt.path.split('/').pop()}`, fileBlob);
+        }
+
+        downloadBlob(await zip.generateAsync({ type: 'blob' }), `my-data-${date}.zip`);
+      }
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في تصدير البيانات",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const requestDeletion = async () => {
+    if (!user) return;
+    if (!confirm('هل أنت متأكد من طلب حذف حسابك؟ بعد موافقة الإدارة سيتم حذف حسابك واشتراكاتك وإيصالات الدفع نهائياً.')) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('account_deletion_requests')
+        .insert({ user_id: user.id, reason: reason.trim() || null });
+
+      if (error) throw error;
+
+      toast({
+        title: "تم إرسال الطلب",
+        description: "سيتم حذف حسابك بعد مراجعة الإدارة للطلب"
+      });
+
+      setReason('');
+      fetchDeletionRequest();
+    } catch (error) {
+      console.error('Error requesting account deletion:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في إرسال طلب الحذف",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const withdrawDeletion = async () => {
+    if (!deletionRequest) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('account_deletion_requests')
+        .delete()
+        .eq('id', deletionRequest.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "تم إلغاء الطلب",
+        description: "لن يتم حذف حسابك"
+      });
+
+      setDeletionRequest(null);
+    } catch (error) {
+      console.error('Error withdrawing deletion request:', error);
+      toast({
+        title: "خطأ",
+        description: "فشل في إلغاء طلب الحذف",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading || !profile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">جاري تحميل الحساب...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader
+        title="حسابي"
+        subtitle="بيانات حسابك وخيارات الخصوصية"
+        showBackButton={true}
+        backTo="/"
+        backLabel="العودة للوحة التحكم"
+      />
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCircle className="h-5 w-5" />
+              معلومات الحساب
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <p className="font-medium">{profile.email}</p>
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary">{roleLabels[profile.role]}</Badge>
+              <Badge variant={profile.approved ? 'default' : 'outline'}>
+                {profile.approved ? 'معتمد' : 'في الانتظار'}
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              تاريخ التسجيل: {new Date(profile.created_at).toLocaleDateString('ar-SA')}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Download className="h-5 w-5" />
+              تنزيل بياناتي
+            </CardTitle>
+            <CardDescription>
+              نسخة من ملفك الشخصي واشتراكاتك والفيديوهات الممنوحة لك. ملف ZIP يتضمن أيضاً إيصالات الدفع التي رفعتها.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Button variant="outline" onClick={() => exportData('json')} disabled={exporting}>
+              <Download className="h-4 w-4 ml-1" />
+              JSON
+            </Button>
+            <Button onClick={() => exportData('zip')} disabled={exporting}>
+              <FileArchive className="h-4 w-4 ml-1" />
+              {exporting ? 'جاري التجهيز...' : 'ZIP مع الإيصالات'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              سجل الدخول
+            </CardTitle>
+            <CardDescription>
+              آخر عمليات تسجيل الدخول والخروج على حسابك. إذا لاحظت نشاطاً لا تعرفه غيّر كلمة المرور فوراً.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SecurityEventsList userId={profile.user_id} />
+          </CardContent>
+        </Card>
+
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-destructive">
+              <Trash2 className="h-5 w-5" />
+              حذف الحساب
+            </CardTitle>
+            <CardDescription>
+              يحذف حسابك واشتراكاتك والفيديوهات الممنوحة لك وإيصالات الدفع نهائياً بعد موافقة الإدارة. لا يمكن التراجع عن الحذف.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {deletionRequest ? (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <Badge variant="destructive">طلب حذف قيد المراجعة</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    منذ {new Date(deletionRequest.created_at).toLocaleDateString('ar-SA')}
+                  </span>
+                </div>
+                {deletionRequest.status === 'pending' && (
+                  <Button variant="outline" onClick={withdrawDeletion} disabled={submitting}>
+                    إلغاء طلب الحذف
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="deletion-reason">سبب الحذف (اختياري)</Label>
+                  <Textarea
+                    id="deletion-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="أخبرنا لماذا تريد حذف حسابك"
+                  />
+                </div>
+                <Button variant="destructive" onClick={requestDeletion} disabled={submitting}>
+                  طلب حذف الحساب
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default Profile;
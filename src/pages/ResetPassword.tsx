@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { useNavigate, Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+
+// Landing page of the emailed reset link; the link itself signs the user in.
+// The form only shows for that recovery session, not for any signed-in user.
+const ResetPassword = () => {
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { loading, passwordRecovery, updatePassword } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      toast({
+        title: 'خطأ',
+        description: 'كلمتا المرور غير متطابقتين',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSubmitting(true);
+
+    const { error } = await updatePassword(password);
+
+    if (error) {
+      toast({
+        title: 'خطأ',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'تم التحديث',
+        description: 'تم تعيين كلمة المرور الجديدة بنجاح',
+      });
+      navigate('/dashboard');
+    }
+
+    setSubmitting(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center hero-gradient">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center hero-gradient p-4">
+      <Card className="w-full max-w-md card-shadow">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold text-primary mb-2">تعيين كلمة مرور جديدة</CardTitle>
+          <CardDescription className="text-base">
+            {passwordRecovery ? 'أدخل كلمة المرور الجديدة لحسابك' : 'رابط إعادة التعيين غير صالح أو منتهي الصلاحية'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {passwordRecovery ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">كلمة المرور الجديدة</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  placeholder="أنشئ كلمة مرور قوية"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">تأكيد كلمة المرور</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  placeholder="أعد إدخال كلمة المرور"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={submitting}>
+                {submitting ? 'جاري الحفظ...' : 'حفظ كلمة المرور'}
+              </Button>
+            </form>
+          ) : (
+            <div className="text-center">
+              <Link to="/forgot-password" className="text-sm text-primary hover:underline">
+                طلب رابط جديد
+              </Link>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -1,82 +1,229 @@
-import { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import Hls from 'hls.js';
+import { getDeviceId } from '@/lib/device';
+import { getThumbnailUrl, getYouTubeId } from '@/lib/thumbnails';
 import { useAuth } from '@/hooks/useAuth';
-import { Play, Video, Clock, Pause, Square, SkipBack, SkipForward, Settings } from 'lucide-react';
+import { Play, Video, Clock, Pause, Square, SkipBack, SkipForward, Settings, Lock, Maximize, Minimize } from 'lucide-react';
 import NavigationHeader from '@/components/NavigationHeader';
+import VideoWatermark from '@/components/VideoWatermark';
 // ReactPlayer removed; using iframe embeds for external URLs
 
 interface VideoRecord {
   id: string;
   title: string;
   description: string;
-  file_path: string | null;
   video_url: string | null;
   video_type: 'file' | 'url';
-  status: 'processing' | 'ready' | 'disabled';
+  status: 'processing' | 'ready' | 'disabled' | 'failed';
   duration_seconds: number | null;
+  thumbnail_path: string | null;
   created_at: string;
 }
 
+interface PlaybackToken {
+  url: string;
+  type: 'hls' | 'mp4';
+  expiresAt: string;
+  ttlSeconds: number;
+}
+
+const playbackErrorMessages: Record<string, string> = {
+  device_limit: 'تم الوصول للحد الأقصى من الأجهزة المسموح بها لحسابك. يمكنك إزالة جهاز من صفحة أجهزتي.',
+  device_revoked: 'تم إيقاف التشغيل على هذا الجهاز.',
+  stream_limit: 'يتم تشغيل فيديو على جهاز آخر بحسابك حالياً.',
+};
+
+const requestPlaybackUrl = async (videoId: string): Promise<PlaybackToken> => {
+  const { data, error } = await supabase.functions.invoke('get-playback-url', {
+    body: { videoId, deviceId: getDeviceId() },
+  });
+
+  if (error) {
+    const details = error instanceof FunctionsHttpError
+      ? await error.context.json().catch(() => null)
+      : null;
+    throw new Error(playbackErrorMessages[details?.error] || 'Failed to load video');
+  }
+
+  if (!data?.url) {
+    throw new Error('Failed to load video');
+  }
+
+  return data as PlaybackToken;
+};
+
+const tokenFromUrl = (url: string) => new URL(url).searchParams.get('token');
+
+interface LockedCourse {
+  id: string;
+  title: string;
+}
+
 const VideoPlayer = () => {
   const { videoId } = useParams<{ videoId: string }>();
   const navigate = useNavigate();
-  const { profile } = useAuth();
+  const { user, profile } = useAuth();
   const [video, setVideo] = useState<VideoRecord | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [playbackType, setPlaybackType] = useState<'hls' | 'mp4'>('mp4');
+  const [lockedCourses, setLockedCourses] = useState<LockedCourse[] | null>(null);
   const [loading, setLoading] = useState(true);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [playbackRate, setPlaybackRate] = useState(1);
+  const [tokenTtl, setTokenTtl] = useState<number | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const playerContainerRef = useRef<HTMLDivElement>(null);
+  const nextPlaybackRef = useRef<PlaybackToken | null>(null);
+  // Newest token for HLS, swapped into playlist and key requests by hls.js
+  const hlsTokenRef = useRef<string | null>(null);
+  const resumeRef = useRef<{ time: number; playing: boolean } | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
-    if (!videoId) {
-      navigate('/');
+    const handleFullscreenChange = () => {
+      setIsFullscreen(document.fullscreenElement === playerContainerRef.current);
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  // Encrypted HLS streams play through hls.js; Safari supports them natively
+  useEffect(() => {
+    const media = videoRef.current;
+    if (!media || !videoUrl || playbackType !== 'hls') return;
+
+    // Native playback cannot send the device header, so this only works for
+    // streams the server does not require it for
+    if (!Hls.isSupported()) {
+      media.src = videoUrl;
       return;
     }
 
-    fetchVideo();
-  }, [videoId, navigate]);
+    const hls = new Hls({
+      // Requests to the edge functions get the newest token and this device's
+      // id, so an expired token never interrupts playback
+      xhrSetup: (xhr, url) => {
+        if (!url.includes('/functions/v1/')) return;
+
+        const freshUrl = new URL(url);
+        if (hlsTokenRef.current) {
+          freshUrl.searchParams.set('token', hlsTokenRef.current);
+        }
+        xhr.open('GET', freshUrl.toString(), true);
+        xhr.setRequestHeader('x-device-id', getDeviceId());
+      },
+    });
+
+    // Recover in place once; the media element keeps its position
+    let recovering = false;
+    hls.on(Hls.Events.FRAG_LOADED, () => {
+      recovering = false;
+    });
+    hls.on(Hls.Events.ERROR, async (_event, data) => {
+      if (!data.fatal) return;
 
-  const fetchVideo = async () => {
+      if (recovering) {
+        hls.destroy();
+        toast({
+          title: 'خطأ',
+          description: 'فشل في تحميل الفيديو',
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      recovering = true;
+      if (data.type === Hls.ErrorTypes.MEDIA_ERROR) {
+        hls.recoverMediaError();
+        return;
+      }
+      if (videoId) {
+        try {
+          hlsTokenRef.current = tokenFromUrl((await requestPlaybackUrl(videoId)).url);
+        } catch (e) {
+          console.error('Failed to refresh playback token', e);
+        }
+      }
+      hls.startLoad();
+    });
+    hls.loadSource(videoUrl);
+    hls.attachMedia(media);
+
+    return () => hls.destroy();
+  }, [videoUrl, playbackType, videoId, toast]);
+
+  // Keep a fresh playback token ready before the current one expires
+  useEffect(() => {
+    if (!video || video.video_type !== 'file' || !tokenTtl) return;
+
+    const interval = window.setInterval(async () => {
+      try {
+        const playback = await requestPlaybackUrl(video.id);
+        if (playback.type === 'hls') {
+          hlsTokenRef.current = tokenFromUrl(playback.url);
+        } else {
+          nextPlaybackRef.current = playback;
+        }
+      } catch (e) {
+        console.error('Failed to refresh playback token', e);
+      }
+    }, Math.max(tokenTtl - 60, 30) * 1000);
+
+    return () => clearInterval(interval);
+  }, [video, tokenTtl]);
+
+  const fetchVideo = useCallback(async () => {
     if (!videoId) return;
 
+    setLockedCourses(null);
     try {
-      // Fetch video details
+      // Fetch video details (only returned when the user is entitled to watch it)
       const { data: videoData, error: videoError } = await supabase
-        .from('videos')
+        .from('viewable_videos')
         .select('*')
         .eq('id', videoId)
-        .eq('status', 'ready')
-        .single();
+        .maybeSingle();
 
       if (videoError) {
         throw new Error('Video not found or not available');
       }
 
+      if (!videoData) {
+        // Not entitled: point the student to the courses that contain this video
+        const { data: coursesData, error: coursesError } = await supabase
+          .rpc('get_video_courses', { _video_id: videoId });
+
+        if (coursesError || !coursesData || coursesData.length === 0) {
+          throw new Error('Video not found or not available');
+        }
+
+        setLockedCourses(coursesData);
+        return;
+      }
+
       setVideo(videoData as VideoRecord);
 
       // Handle video URL based on type
       if (videoData.video_type === 'url' && videoData.video_url) {
         setVideoUrl(videoData.video_url);
-      } else if (videoData.video_type === 'file' && videoData.file_path) {
-        // Get signed URL for video playback
-        const { data: urlData, error: urlError } = await supabase.storage
-          .from('videos')
-          .createSignedUrl(videoData.file_path, 3600); // 1 hour expiry
-
-        if (urlError) {
-          throw new Error('Failed to load video');
-        }
-
-        setVideoUrl(urlData.signedUrl);
+      } else if (videoData.video_type === 'file') {
+        // Get a short-lived playback URL bound to this user
+        const playback = await requestPlaybackUrl(videoData.id);
+        hlsTokenRef.current = tokenFromUrl(playback.url);
+        setPlaybackType(playback.type);
+        setVideoUrl(playback.url);
+        setTokenTtl(playback.ttlSeconds);
       } else {
         throw new Error('Video source not available');
       }
@@ -92,7 +239,16 @@ const VideoPlayer = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [videoId, toast, navigate]);
+
+  useEffect(() => {
+    if (!videoId) {
+      navigate('/');
+      return;
+    }
+
+    fetchVideo();
+  }, [videoId, navigate, fetchVideo]);
 
   const formatDuration = (seconds: number | null) => {
     if (!seconds) return 'غير محدد';
@@ -141,6 +297,19 @@ const VideoPlayer = () => {
     }
   };
 
+  // Fullscreen the whole player container so the watermark stays on top
+  const handleFullscreenToggle = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await playerContainerRef.current?.requestFullscreen();
+      }
+    } catch (e) {
+      console.error('Failed to toggle fullscreen', e);
+    }
+  };
+
   const handleSpeedChange = () => {
     if (videoRef.current) {
       const speeds = [0.5, 0.75, 1, 1.25, 1.5, 2];
@@ -158,21 +327,58 @@ const VideoPlayer = () => {
     }
   };
 
-  const handleLoadedMetadata = async () => {
+  const handleVideoError = async () => {
+    if (!video || video.video_type !== 'file' || !videoRef.current) return;
+    // hls.js recovers from its own errors
+    if (playbackType === 'hls' && Hls.isSupported()) return;
+
+    // Already retried once on a fresh token; give up instead of looping
+    if (resumeRef.current) {
+      resumeRef.current = null;
+      toast({
+        title: 'خطأ',
+        description: 'فشل في تحميل الفيديو',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Unpackaged videos play as plain MP4, whose requests cannot be given a
+    // new token: when it expires mid-lesson (e.g. on a seek), swap in a fresh
+    // one and resume
+    resumeRef.current = { time: videoRef.current.currentTime, playing: isPlaying };
+    try {
+      const pending = nextPlaybackRef.current;
+      const playback = pending && new Date(pending.expiresAt) > new Date()
+        ? pending
+        : await requestPlaybackUrl(video.id);
+      nextPlaybackRef.current = null;
+      setPlaybackType(playback.type);
+      setVideoUrl(playback.url);
+    } catch (e) {
+      console.error('Failed to refresh playback token', e);
+      resumeRef.current = null;
+      toast({
+        title: 'خطأ',
+        description: e instanceof Error ? e.message : 'فشل في تحميل الفيديو',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleLoadedMetadata = () => {
+    if (videoRef.current && resumeRef.current) {
+      videoRef.current.currentTime = resumeRef.current.time;
+      videoRef.current.playbackRate = playbackRate;
+      if (resumeRef.current.playing) {
+        videoRef.current.play();
+      }
+      resumeRef.current = null;
+    }
+
+    // The stored duration comes from the media worker's probe
     if (videoRef.current) {
-      const d = Math.round(videoRef.current.duration);
       setDuration(videoRef.current.duration);
-      try {
-        if (profile?.role === 'admin' && video && (!video.duration_seconds || video.duration_seconds !== d)) {
-          await supabase
-            .from('videos')
-            .update({ duration_seconds: d })
-            .eq('id', video.id);
-          setVideo({ ...video, duration_seconds: d });
-        }
-      } catch (e) {
-        console.error('Failed to update video duration', e);
-      }
     }
   };
 
@@ -194,6 +400,34 @@ const VideoPlayer = () => {
     );
   }
 
+  if (lockedCourses) {
+    return (
+      <div className="min-h-screen flex items-center justify-center hero-gradient p-4">
+        <Card className="w-full max-w-md card-shadow">
+          <CardHeader className="text-center">
+            <Lock className="h-12 w-12 mx-auto mb-2 text-primary" />
+            <CardTitle className="text-primary">اشترك للمشاهدة</CardTitle>
+            <CardDescription>
+              هذا الفيديو متاح للطلاب المشتركين في الكورس فقط. اشترك في أحد الكورسات التالية لمشاهدته.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 text-center">
+            {lockedCourses.map((course) => (
+              <Link key={course.id} to={`/course/${course.id}/subscribe`} className="block">
+                <Button className="w-full hover-lift">
+                  الاشتراك في {course.title}
+                </Button>
+              </Link>
+            ))}
+            <Button onClick={() => navigate('/')} variant="outline" className="w-full hover-lift">
+              العودة للرئيسية
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (!video || !videoUrl) {
     return (
       <div className="min-h-screen flex items-center justify-center hero-gradient p-4">
@@ -228,33 +462,19 @@ const VideoPlayer = () => {
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
           <div className="lg:col-span-3">
             <Card className="overflow-hidden card-shadow">
-              <div className="aspect-video bg-black relative">
+              <div ref={playerContainerRef} className="aspect-video bg-black relative">
                 {video.video_type === 'url' && (
                   <div className="w-full h-full">
                     <iframe
                       src={(() => {
-                        try {
-                          const raw = videoUrl || '';
-                          const u = new URL(raw);
-                          const host = u.hostname.replace('www.', '');
-                          if (host.includes('youtube.com')) {
-                            const v = u.searchParams.get('v');
-                            return v ? `https://www.youtube.com/embed/${v}` : raw;
-                          }
-                          if (host === 'youtu.be') {
-                            const id = u.pathname.slice(1);
-                            return `https://www.youtube.com/embed/${id}`;
-                          }
-                          return raw;
-                        } catch {
-                          return videoUrl || '';
-                        }
+                        const youTubeId = getYouTubeId(videoUrl);
+                        return youTubeId ? `https://www.youtube.com/embed/${youTubeId}` : videoUrl || '';
                       })()}
                       width="100%"
                       height="100%"
                       className="w-full h-full"
-                      allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share"
-                      allowFullScreen
+                      // No native fullscreen or picture-in-picture: both would hide the watermark
+                      allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; web-share"
                       referrerPolicy="strict-origin-when-cross-origin"
                       title={video.title}
                     />
@@ -263,13 +483,15 @@ const VideoPlayer = () => {
                 {video.video_type !== 'url' && (
                   <video
                     ref={videoRef}
-                    src={videoUrl}
+                    src={playbackType === 'mp4' ? videoUrl : undefined}
                     controls={false}
+                    disablePictureInPicture
                   className="w-full h-full"
-                  poster="/placeholder.svg"
+                  poster={getThumbnailUrl(video) ?? '/placeholder.svg'}
                   preload="metadata"
                   onTimeUpdate={handleTimeUpdate}
                   onLoadedMetadata={handleLoadedMetadata}
+                  onError={handleVideoError}
                   onContextMenu={(e) => e.preventDefault()}
                 >
                   <p className="text-white p-4">
@@ -277,6 +499,7 @@ const VideoPlayer = () => {
                   </p>
                 </video>
                 )}
+                <VideoWatermark viewer={profile?.email || user?.id.slice(0, 8) || ''} />
                 <div className="absolute top-4 left-4">
                   <Badge variant="secondary" className="bg-black/50 text-white border-white/20">
                     <Play className="h-3 w-3 ml-1" />
@@ -348,6 +571,15 @@ const VideoPlayer = () => {
                   >
                     <Settings className="h-4 w-4" />
                   </Button>
+
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={handleFullscreenToggle}
+                    className="h-10 w-10 hover-lift"
+                  >
+                    {isFullscreen ? <Minimize className="h-4 w-4" /> : <Maximize className="h-4 w-4" />}
+                  </Button>
                 </div>
               </div>
             </Card>
@@ -0,0 +1,12 @@
+// Number of proxies in front of the edge runtime that append to
+// x-forwarded-for. Only entries they added can be trusted: anything to their
+// left is whatever the client sent. The platform gateway is the one trusted
+// hop by default; raise this if another proxy (e.g. a CDN) sits in front.
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(Deno.env.get('TRUSTED_PROXY_HOPS') ?? 1) || 1);
+
+// Caller IP as seen by the outermost trusted proxy: the entry that proxy
+// appended, counted from the right of x-forwarded-for
+export const getClientIp = (req: Request) => {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',').map((entry) => entry.trim()) ?? [];
+  return forwarded[forwarded.length - TRUSTED_PROXY_HOPS] ?? '';
+};
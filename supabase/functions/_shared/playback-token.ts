@@ -0,0 +1,91 @@
+// Signed playback tokens shared by get-playback-url and hls-key.
+// A token binds one video to the user, device and IP it was issued to.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { getClientIp } from './client-ip.ts';
+
+export interface PlaybackToken {
+  videoId: string;
+  userId: string;
+  deviceId: string;
+  ip: string;
+  exp: number;
+}
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const base64UrlDecode = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0));
+
+const getSigningKey = () => {
+  const secret = Deno.env.get('PLAYBACK_TOKEN_SECRET');
+  if (!secret) {
+    throw new Error('PLAYBACK_TOKEN_SECRET is not configured');
+  }
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+};
+
+export const signToken = async (token: PlaybackToken) => {
+  const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(token)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), new TextEncoder().encode(payload));
+  return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+};
+
+export const verifyToken = async (value: string): Promise<PlaybackToken | null> => {
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature) return null;
+
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await getSigningKey(),
+    base64UrlDecode(signature),
+    new TextEncoder().encode(payload)
+  );
+  if (!valid) return null;
+
+  return JSON.parse(new TextDecoder().decode(base64UrlDecode(payload)));
+};
+
+// Revoking or resetting a device ends its playback immediately
+const isDeviceActive = async (supabase: SupabaseClient, token: PlaybackToken) => {
+  const { data: device } = await supabase
+    .from('user_devices')
+    .select('revoked_at')
+    .eq('user_id', token.userId)
+    .eq('device_id', token.deviceId)
+    .maybeSingle();
+
+  return !!device && !device.revoked_at;
+};
+
+// Returns an error code when the token cannot be used by this request.
+// hls.js sends the device id as a header with every playlist and key request,
+// so a copied URL does not play in another browser on the same network.
+// Plain <video> requests cannot carry headers, which is why the MP4 fallback
+// is only bound to the IP and an active device.
+export const checkToken = async (
+  supabase: SupabaseClient,
+  token: PlaybackToken | null,
+  req: Request,
+  { requireDevice }: { requireDevice: boolean }
+) => {
+  if (!token || token.exp * 1000 < Date.now()) {
+    return 'token_expired';
+  }
+  if (token.ip !== getClientIp(req)) {
+    return 'token_mismatch';
+  }
+  if (requireDevice && req.headers.get('x-device-id') !== token.deviceId) {
+    return 'token_mismatch';
+  }
+  if (!(await isDeviceActive(supabase, token))) {
+    return 'device_revoked';
+  }
+  return null;
+};
@@ -0,0 +1,133 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Carries out a student's deletion request once an admin confirms it.
+// Receipts are removed from storage first; deleting the auth user then
+// cascades through profiles, subscriptions, video_access and the rest.
+// The cascade runs without a user, so the deletion is audited explicitly.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+
+    const userClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'unauthorized', message: 'Not authenticated' }, 401);
+    }
+
+    const { data: isAdmin, error: adminError } = await userClient.rpc('is_admin');
+
+    if (adminError) throw adminError;
+
+    if (!isAdmin) {
+      return jsonResponse({ error: 'forbidden', message: 'Only admins can confirm account deletion' }, 403);
+    }
+
+    const { data: reauthenticated, error: reauthError } = await userClient.rpc('has_recent_reauthentication');
+
+    if (reauthError) throw reauthError;
+
+    if (!reauthenticated) {
+      return jsonResponse({ error: 'reauthentication_required', message: 'Enter your password again to delete accounts' }, 403);
+    }
+
+    const { requestId } = await req.json();
+
+    if (typeof requestId !== 'string' || !requestId) {
+      return jsonResponse({ error: 'invalid_request', message: 'requestId is required' }, 400);
+    }
+
+    // Approve as the admin so the audit log records who confirmed it. An
+    // approved request that still exists failed half-way and may be retried.
+    const { data: request, error: approveError } = await userClient
+      .from('account_deletion_requests')
+      .update({ status: 'approved', reviewed_by: user.id, reviewed_at: new Date().toISOString() })
+      .eq('id', requestId)
+      .in('status', ['pending', 'approved'])
+      .neq('user_id', user.id)
+      .select('user_id')
+      .maybeSingle();
+
+    if (approveError) throw approveError;
+
+    if (!request) {
+      return jsonResponse({ error: 'not_found', message: 'No open deletion request with this id' }, 404);
+    }
+
+    const supabase = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id, email, role')
+      .eq('user_id', request.user_id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+
+    const { data: receipts, error: listError } = await supabase.storage
+      .from('payment-receipts')
+      .list(request.user_id, { limit: 1000 });
+
+    if (listError) throw listError;
+
+    if (receipts && receipts.length > 0) {
+      const { error: removeError } = await supabase.storage
+        .from('payment-receipts')
+        .remove(receipts.map((file) => `${request.user_id}/${file.name}`));
+
+      if (removeError) throw removeError;
+    }
+
+    const { error: deleteError } = await supabase.auth.admin.deleteUser(request.user_id);
+
+    if (deleteError) throw deleteError;
+
+    // The account is gone either way; a missing entry is only logged
+    const { error: auditError } = await supabase.rpc('log_service_action', {
+      _actor_id: user.id,
+      _action: 'delete_account',
+      _target_table: 'profiles',
+      _target_id: profile?.id ?? null,
+      _old_data: { user_id: request.user_id, email: profile?.email ?? null, role: profile?.role ?? null },
+      _new_data: null,
+      _via: 'delete-account',
+    });
+
+    if (auditError) console.error('Failed to audit account deletion:', { userId: request.user_id, auditError });
+
+    console.log('Deleted account:', { userId: request.user_id, confirmedBy: user.id, receipts: receipts?.length ?? 0 });
+
+    return jsonResponse({ success: true });
+
+  } catch (error) {
+    console.error('Error in delete-account:', error);
+    return jsonResponse({
+      error: 'Failed to delete account',
+      details: error.message
+    }, 500);
+  }
+});
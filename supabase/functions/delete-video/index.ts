@@ -0,0 +1,118 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Deletes a video row as the caller, so the delete policies (including the
+// reauthentication one) decide, and only then removes its files. Instructors
+// lose access to the files together with the row, so storage is cleaned up
+// with the service role.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+
+    const userClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'unauthorized', message: 'Not authenticated' }, 401);
+    }
+
+    const { videoId } = await req.json();
+
+    if (typeof videoId !== 'string' || !videoId) {
+      return jsonResponse({ error: 'invalid_request', message: 'videoId is required' }, 400);
+    }
+
+    const { data: reauthenticated, error: reauthError } = await userClient.rpc('has_recent_reauthentication');
+
+    if (reauthError) throw reauthError;
+
+    if (!reauthenticated) {
+      return jsonResponse({ error: 'reauthentication_required', message: 'Enter your password again to delete videos' }, 403);
+    }
+
+    // RLS turns a forbidden delete into zero rows rather than an error
+    const { data: deleted, error: deleteError } = await userClient
+      .from('videos')
+      .delete()
+      .eq('id', videoId)
+      .select('id, file_path, hls_path');
+
+    if (deleteError) throw deleteError;
+
+    if (!deleted || deleted.length === 0) {
+      return jsonResponse({ error: 'not_found', message: 'Video not found or not allowed to delete it' }, 404);
+    }
+
+    const video = deleted[0];
+    const supabase = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const removeFolder = async (bucket: string, folder: string) => {
+      const { data: files, error: listError } = await supabase.storage
+        .from(bucket)
+        .list(folder, { limit: 1000 });
+
+      if (listError) throw listError;
+      if (!files || files.length === 0) return;
+
+      const { error: removeError } = await supabase.storage
+        .from(bucket)
+        .remove(files.map((file) => `${folder}/${file.name}`));
+
+      if (removeError) throw removeError;
+    };
+
+    // The row is gone either way; leftover files are only logged
+    const cleanups: Promise<unknown>[] = [
+      removeFolder('videos', `renditions/${video.id}`),
+      removeFolder('thumbnails', video.id),
+    ];
+    if (video.file_path) {
+      cleanups.push(supabase.storage.from('videos').remove([video.file_path]).then(({ error }) => {
+        if (error) throw error;
+      }));
+    }
+    // Packaged HLS segments live in their own folder next to the playlist
+    if (video.hls_path) {
+      cleanups.push(removeFolder('videos', video.hls_path.substring(0, video.hls_path.lastIndexOf('/'))));
+    }
+
+    const failed = (await Promise.allSettled(cleanups)).filter((result) => result.status === 'rejected');
+    if (failed.length > 0) {
+      console.warn('Failed to remove some files of deleted video:', { videoId: video.id, failed });
+    }
+
+    console.log('Deleted video:', { videoId: video.id, deletedBy: user.id });
+
+    return jsonResponse({ success: true });
+
+  } catch (error) {
+    console.error('Error in delete-video:', error);
+    return jsonResponse({
+      error: 'Failed to delete video',
+      details: error.message
+    }, 500);
+  }
+});
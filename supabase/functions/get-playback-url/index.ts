@@ -0,0 +1,261 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { getClientIp } from '../_shared/client-ip.ts';
+import { checkToken, signToken, verifyToken } from '../_shared/playback-token.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, range, x-device-id',
+  'Access-Control-Expose-Headers': 'content-length, content-range, accept-ranges',
+};
+
+// Playback tokens are valid for a few minutes only; the player refreshes them
+// in the background and sends the newest one with each playlist or key request
+const TOKEN_TTL_SECONDS = 300;
+
+// Segments are AES-128 encrypted, so their storage URLs can outlive the token
+const SEGMENT_URL_TTL_SECONDS = 4 * 60 * 60;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// POST: check entitlement and issue a short-lived token bound to the caller
+const issueToken = async (req: Request) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+
+  const userClient = createClient(
+    supabaseUrl,
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  );
+
+  const { data: { user }, error: userError } = await userClient.auth.getUser();
+
+  if (userError || !user) {
+    return jsonResponse({ error: 'unauthorized', message: 'Not authenticated' }, 401);
+  }
+
+  const { videoId, deviceId } = await req.json();
+
+  if (typeof videoId !== 'string' || typeof deviceId !== 'string' || !deviceId) {
+    return jsonResponse({ error: 'invalid_request', message: 'videoId and deviceId are required' }, 400);
+  }
+
+  // Entitlement is evaluated as the caller so the same rules as RLS apply
+  const { data: canView, error: accessError } = await userClient.rpc('can_view_video', { _video_id: videoId });
+
+  if (accessError) throw accessError;
+
+  if (!canView) {
+    return jsonResponse({ error: 'forbidden', message: 'Not entitled to this video' }, 403);
+  }
+
+  const supabase = createClient(
+    supabaseUrl,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const { data: video, error: videoError } = await supabase
+    .from('videos')
+    .select('id, file_path, hls_path, status, video_type')
+    .eq('id', videoId)
+    .single();
+
+  if (videoError || !video || video.status !== 'ready' || video.video_type !== 'file' || !video.file_path) {
+    return jsonResponse({ error: 'not_found', message: 'Video not available' }, 404);
+  }
+
+  // Register the device and enforce the device and concurrent stream limits
+  const userAgent = req.headers.get('user-agent');
+  const { data: slot, error: slotError } = await supabase.rpc('claim_playback_slot', {
+    _user_id: user.id,
+    _device_id: deviceId,
+    _user_agent: userAgent,
+  });
+
+  if (slotError) throw slotError;
+
+  if (slot === 'device_revoked' || slot === 'device_limit') {
+    return jsonResponse({ error: slot, message: 'This device is not allowed to play videos' }, 403);
+  }
+  if (slot === 'stream_limit') {
+    return jsonResponse({ error: slot, message: 'Too many simultaneous streams' }, 409);
+  }
+
+  const ip = getClientIp(req);
+  const expiresAt = new Date(Date.now() + TOKEN_TTL_SECONDS * 1000);
+  const token = await signToken({
+    videoId,
+    userId: user.id,
+    deviceId,
+    ip,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  });
+
+  const { error: logError } = await supabase
+    .from('playback_issuances')
+    .insert({
+      user_id: user.id,
+      video_id: videoId,
+      device_id: deviceId,
+      ip_address: ip || null,
+      user_agent: userAgent,
+      expires_at: expiresAt.toISOString(),
+    });
+
+  if (logError) throw logError;
+
+  console.log('Issued playback token:', { userId: user.id, videoId });
+
+  return jsonResponse({
+    url: `${supabaseUrl}/functions/v1/get-playback-url?token=${encodeURIComponent(token)}`,
+    type: video.hls_path ? 'hls' : 'mp4',
+    expiresAt: expiresAt.toISOString(),
+    ttlSeconds: TOKEN_TTL_SECONDS,
+  });
+};
+
+// Rewrite the stored playlist: segments become signed storage URLs and the
+// key URI points at hls-key with the same playback token
+const servePlaylist = async (
+  supabase: ReturnType<typeof createClient>,
+  hlsPath: string,
+  tokenValue: string
+) => {
+  const { data: playlistBlob, error: playlistError } = await supabase.storage
+    .from('videos')
+    .download(hlsPath);
+
+  if (playlistError || !playlistBlob) throw playlistError ?? new Error('Failed to load playlist');
+
+  const folder = hlsPath.substring(0, hlsPath.lastIndexOf('/') + 1);
+  const lines = (await playlistBlob.text()).split('\n');
+  const segments = lines.filter((line) => line.trim() && !line.startsWith('#')).map((line) => line.trim());
+
+  const { data: signedSegments, error: signError } = await supabase.storage
+    .from('videos')
+    .createSignedUrls(segments.map((segment) => `${folder}${segment}`), SEGMENT_URL_TTL_SECONDS);
+
+  if (signError || !signedSegments) throw signError ?? new Error('Failed to sign segments');
+
+  const keyUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/hls-key?token=${encodeURIComponent(tokenValue)}`;
+  let segmentIndex = 0;
+  const playlist = lines.map((line) => {
+    if (line.startsWith('#EXT-X-KEY')) {
+      return line.replace(/URI="[^"]*"/, `URI="${keyUrl}"`);
+    }
+    if (line.trim() && !line.startsWith('#')) {
+      return signedSegments[segmentIndex++].signedUrl;
+    }
+    return line;
+  }).join('\n');
+
+  return new Response(playlist, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/vnd.apple.mpegurl',
+      'Cache-Control': 'private, no-store',
+    },
+  });
+};
+
+// GET: serve the HLS playlist, or stream the MP4 for videos not packaged yet
+const streamVideo = async (req: Request, tokenValue: string) => {
+  const token = await verifyToken(tokenValue);
+  if (!token) {
+    return jsonResponse({ error: 'token_expired', message: 'Playback token is invalid or expired' }, 401);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  );
+
+  const { data: video, error: videoError } = await supabase
+    .from('videos')
+    .select('file_path, hls_path, status')
+    .eq('id', token.videoId)
+    .single();
+
+  if (videoError || !video?.file_path || video.status !== 'ready') {
+    return jsonResponse({ error: 'not_found', message: 'Video not available' }, 404);
+  }
+
+  const tokenError = await checkToken(supabase, token, req, { requireDevice: !!video.hls_path });
+
+  if (tokenError === 'token_expired') {
+    return jsonResponse({ error: tokenError, message: 'Playback token is invalid or expired' }, 401);
+  }
+  if (tokenError === 'token_mismatch') {
+    return jsonResponse({ error: tokenError, message: 'Playback token was issued to another client' }, 403);
+  }
+  if (tokenError === 'device_revoked') {
+    return jsonResponse({ error: tokenError, message: 'This device is not allowed to play videos' }, 403);
+  }
+
+  if (video.hls_path) {
+    return await servePlaylist(supabase, video.hls_path, tokenValue);
+  }
+
+  // Without HLS, stream the largest rendition; the upload itself may not be
+  // playable in browsers (older videos have no renditions)
+  const { data: rendition, error: renditionError } = await supabase
+    .from('video_renditions')
+    .select('file_path')
+    .eq('video_id', token.videoId)
+    .order('height', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (renditionError) throw renditionError;
+
+  const { data: urlData, error: urlError } = await supabase.storage
+    .from('videos')
+    .createSignedUrl(rendition?.file_path ?? video.file_path, 60);
+
+  if (urlError || !urlData) throw urlError ?? new Error('Failed to sign storage URL');
+
+  const range = req.headers.get('range');
+  const upstream = await fetch(urlData.signedUrl, {
+    headers: range ? { Range: range } : {},
+  });
+
+  const headers = new Headers(corsHeaders);
+  for (const name of ['content-type', 'content-length', 'content-range', 'accept-ranges']) {
+    const value = upstream.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  headers.set('Cache-Control', 'private, no-store');
+
+  return new Response(upstream.body, { status: upstream.status, headers });
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+
+    if (req.method === 'GET' && token) {
+      return await streamVideo(req, token);
+    }
+
+    if (req.method === 'POST') {
+      return await issueToken(req);
+    }
+
+    return jsonResponse({ error: 'method_not_allowed', message: 'Unsupported request' }, 405);
+
+  } catch (error) {
+    console.error('Error in get-playback-url:', error);
+    return jsonResponse({
+      error: 'Failed to serve playback',
+      details: error.message
+    }, 500);
+  }
+});
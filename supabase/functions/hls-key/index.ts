@@ -0,0 +1,75 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { checkToken, verifyToken } from '../_shared/playback-token.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-device-id',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const hexToBytes = (hex: string) =>
+  Uint8Array.from(hex.match(/.{2}/g) ?? [], (byte) => parseInt(byte, 16));
+
+// Hands out the AES-128 key of an HLS stream. The key URI in the playlist
+// carries the playback token issued by get-playback-url, which was only
+// granted after checking the caller's JWT and entitlement.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const token = await verifyToken(new URL(req.url).searchParams.get('token') ?? '');
+    const tokenError = await checkToken(supabase, token, req, { requireDevice: true });
+
+    if (!token || tokenError === 'token_expired') {
+      return jsonResponse({ error: 'token_expired', message: 'Playback token is invalid or expired' }, 401);
+    }
+    if (tokenError === 'token_mismatch') {
+      return jsonResponse({ error: tokenError, message: 'Playback token was issued to another client' }, 403);
+    }
+    if (tokenError === 'device_revoked') {
+      return jsonResponse({ error: tokenError, message: 'This device is not allowed to play videos' }, 403);
+    }
+
+    const { data: videoKey, error: keyError } = await supabase
+      .from('video_encryption_keys')
+      .select('key_hex')
+      .eq('video_id', token.videoId)
+      .maybeSingle();
+
+    if (keyError) throw keyError;
+
+    if (!videoKey) {
+      return jsonResponse({ error: 'not_found', message: 'Key not found' }, 404);
+    }
+
+    console.log('Delivered HLS key:', { userId: token.userId, videoId: token.videoId });
+
+    return new Response(hexToBytes(videoKey.key_hex), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/octet-stream',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in hls-key:', error);
+    return jsonResponse({
+      error: 'Failed to deliver key',
+      details: error.message
+    }, 500);
+  }
+});
@@ -0,0 +1,93 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { getClientIp } from '../_shared/client-ip.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Lets an admin who lost their authenticator sign in with a recovery code.
+// The code is consumed and the user's TOTP factors are removed, so the
+// dashboard asks them to enroll a new authenticator.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+    // Resolve the caller from their JWT (password sign-in, before TOTP)
+    const userClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'unauthorized', message: 'Not authenticated' }, 401);
+    }
+
+    const { code } = await req.json();
+
+    if (typeof code !== 'string' || !code.trim()) {
+      return jsonResponse({ error: 'invalid_request', message: 'code is required' }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // Failed attempts are throttled per user
+    const { data: result, error: consumeError } = await supabase.rpc('consume_mfa_recovery_code', {
+      _user_id: user.id,
+      _code: code,
+      _ip_address: getClientIp(req),
+    });
+
+    if (consumeError) throw consumeError;
+
+    if (result.status === 'locked') {
+      console.warn('MFA recovery locked after repeated failures:', { userId: user.id });
+      return jsonResponse({
+        error: 'too_many_attempts',
+        message: 'Too many failed attempts, try again later',
+        lockedUntil: result.locked_until,
+      }, 429);
+    }
+    if (result.status === 'invalid_code') {
+      console.warn('Rejected MFA recovery code:', { userId: user.id });
+      return jsonResponse({ error: 'invalid_code', message: 'Recovery code is invalid or already used' }, 400);
+    }
+
+    for (const factor of user.factors ?? []) {
+      const response = await fetch(`${supabaseUrl}/auth/v1/admin/users/${user.id}/factors/${factor.id}`, {
+        method: 'DELETE',
+        headers: { apikey: serviceRoleKey, Authorization: `Bearer ${serviceRoleKey}` },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to remove factor ${factor.id}: ${response.status}`);
+      }
+    }
+
+    console.log('MFA recovered with recovery code:', { userId: user.id });
+
+    return jsonResponse({ success: true });
+
+  } catch (error) {
+    console.error('Error in mfa-recovery:', error);
+    return jsonResponse({
+      error: 'Failed to recover MFA',
+      details: error.message
+    }, 500);
+  }
+});
@@ -1,67 +1,162 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { z } from 'https://deno.land/x/zod@v3.22.4/mod.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type ErrorCode =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'invalid_request'
+  | 'not_found'
+  | 'invalid_state'
+  | 'missing_upload'
+  | 'internal_error';
+
+const requestSchema = z.object({
+  videoId: z.string().uuid(),
+  title: z.string().trim().min(1).max(200),
+  description: z.string().max(5000).optional().default(''),
+});
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const errorResponse = (error: ErrorCode, message: string, status: number, extra: Record<string, unknown> = {}) =>
+  jsonResponse({ error, message, ...extra }, status);
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+
+    // Resolve the caller from their JWT
+    const userClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+
+    if (userError || !user) {
+      return errorResponse('unauthorized', 'Not authenticated', 401);
+    }
+
+    const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+
+    if (!parsed.success) {
+      return errorResponse('invalid_request', 'Invalid request body', 400, {
+        issues: parsed.error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message })),
+      });
+    }
+
+    const { videoId, title, description } = parsed.data;
+
+    // Admins (with two-factor) and the instructors who own the video only
+    const { data: canManage, error: manageError } = await userClient.rpc('can_manage_video', { _video_id: videoId });
+
+    if (manageError) throw manageError;
+
+    if (!canManage) {
+      return errorResponse('forbidden', 'Not allowed to manage this video', 403);
+    }
+
     const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
+      supabaseUrl,
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { videoId, title, description } = await req.json();
+    const { data: existing, error: fetchError } = await supabase
+      .from('videos')
+      .select('id, file_path, status, video_type, processing_queued_at')
+      .eq('id', videoId)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    if (!existing) {
+      return errorResponse('not_found', 'Video not found', 404);
+    }
+
+    // New uploads and failed ones (retry) can be queued; queued ones cannot
+    const awaitingProcessing = existing.status === 'processing' && !existing.processing_queued_at;
+
+    if (existing.video_type !== 'file' || (!awaitingProcessing && existing.status !== 'failed')) {
+      return errorResponse('invalid_state', 'Only uploaded videos awaiting processing can be processed', 409);
+    }
+
+    // The row is created before the upload; make sure the object really exists
+    const filePath: string = existing.file_path ?? '';
+    const folder = filePath.substring(0, filePath.lastIndexOf('/'));
+    const fileName = filePath.substring(filePath.lastIndexOf('/') + 1);
 
-    console.log('Processing video upload:', { videoId, title, description });
+    const { data: objects, error: listError } = fileName
+      ? await supabase.storage.from('videos').list(folder, { search: fileName, limit: 100 })
+      : { data: [], error: null };
 
-    // Update video record with metadata
+    if (listError) throw listError;
+
+    if (!objects?.some((object) => object.name === fileName)) {
+      return errorResponse('missing_upload', 'No uploaded file found for this video', 422);
+    }
+
+    console.log('Queueing video for processing:', { videoId, userId: user.id });
+
+    // The video stays in 'processing' until the media worker has probed and
+    // transcoded it (worker/video-processor.ts)
     const { data: video, error: updateError } = await supabase
       .from('videos')
       .update({
-        title: title || 'Untitled Video',
-        description: description || '',
-        status: 'ready', // Mark as ready after processing
+        title,
+        description,
+        status: 'processing',
+        processing_queued_at: new Date().toISOString(),
+        processing_queued_by: user.id,
+        processing_started_at: null,
+        processing_error: null,
         updated_at: new Date().toISOString()
       })
       .eq('id', videoId)
       .select()
       .single();
 
-    if (updateError) {
-      console.error('Error updating video:', updateError);
-      throw updateError;
-    }
+    if (updateError) throw updateError;
 
-    console.log('Video processed successfully:', video);
+    // Written with the service role, which the audit trigger cannot attribute.
+    // The video is queued either way; a missing entry is only logged.
+    const { error: auditError } = await supabase.rpc('log_service_action', {
+      _actor_id: user.id,
+      _action: 'update',
+      _target_table: 'videos',
+      _target_id: videoId,
+      _old_data: { status: existing.status },
+      _new_data: { status: 'processing', processing_queued_at: video.processing_queued_at },
+      _via: 'process-video-upload',
+    });
 
-    return new Response(
-      JSON.stringify({ 
-        success: true, 
-        video,
-        message: 'Video processed successfully' 
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    if (auditError) console.error('Failed to audit queueing:', { videoId, auditError });
+
+    console.log('Video queued for processing:', { videoId });
+
+    return jsonResponse({
+      success: true,
+      video,
+      message: 'Video queued for processing'
+    });
 
   } catch (error) {
     console.error('Error in process-video-upload:', error);
-    return new Response(
-      JSON.stringify({ 
-        error: 'Failed to process video upload',
-        details: error.message 
-      }),
-      { 
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    );
+    return errorResponse('internal_error', 'Failed to process video upload', 500, { details: error.message });
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,109 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { getClientIp } from '../_shared/client-ip.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_FAILED_ATTEMPTS = 5;
+const FAILED_ATTEMPTS_WINDOW_MS = 10 * 60 * 1000;
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Confirms the signed-in user's password before a destructive action and
+// records the time, which delete policies check with has_recent_reauthentication().
+// The check is a password grant on the auth server; the session it creates
+// is ended straight away so the caller's own session (and its aal) is untouched.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const anonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+
+    const userClient = createClient(
+      supabaseUrl,
+      anonKey,
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+
+    if (userError || !user || !user.email) {
+      return jsonResponse({ error: 'unauthorized', message: 'Not authenticated' }, 401);
+    }
+
+    const { password } = await req.json();
+
+    if (typeof password !== 'string' || !password) {
+      return jsonResponse({ error: 'invalid_request', message: 'password is required' }, 400);
+    }
+
+    const supabase = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { count, error: countError } = await supabase
+      .from('reauthentication_failures')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .gte('created_at', new Date(Date.now() - FAILED_ATTEMPTS_WINDOW_MS).toISOString());
+
+    if (countError) throw countError;
+
+    if ((count ?? 0) >= MAX_FAILED_ATTEMPTS) {
+      return jsonResponse({ error: 'too_many_attempts', message: 'Too many wrong passwords, try again later' }, 429);
+    }
+
+    const tokenResponse = await fetch(`${supabaseUrl}/auth/v1/token?grant_type=password`, {
+      method: 'POST',
+      headers: { apikey: anonKey, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: user.email, password }),
+    });
+
+    // The password hook also records the failure in the user's login history
+    if (!tokenResponse.ok) {
+      const { error: insertError } = await supabase
+        .from('reauthentication_failures')
+        .insert({
+          user_id: user.id,
+          ip_address: getClientIp(req) || null,
+        });
+
+      if (insertError) throw insertError;
+
+      return jsonResponse({ error: 'invalid_password', message: 'Password is incorrect' }, 401);
+    }
+
+    const { access_token: verificationToken } = await tokenResponse.json();
+
+    await fetch(`${supabaseUrl}/auth/v1/logout?scope=local`, {
+      method: 'POST',
+      headers: { apikey: anonKey, Authorization: `Bearer ${verificationToken}` },
+    });
+
+    const { error: upsertError } = await supabase
+      .from('reauthentications')
+      .upsert({ user_id: user.id, verified_at: new Date().toISOString() });
+
+    if (upsertError) throw upsertError;
+
+    return jsonResponse({ success: true });
+
+  } catch (error) {
+    console.error('Error in reauthenticate:', error);
+    return jsonResponse({
+      error: 'Failed to verify password',
+      details: error.message
+    }, 500);
+  }
+});
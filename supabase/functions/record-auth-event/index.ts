@@ -0,0 +1,75 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { getClientIp } from '../_shared/client-ip.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Failed sign-ins are recorded by the password verification hook in the
+// database, where the caller cannot forge them
+const SESSION_EVENTS = ['sign_in', 'sign_out', 'password_changed'];
+const SIGN_OUT_REASONS = ['idle_timeout'];
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const { eventType, deviceId, reason } = await req.json();
+
+    if (!SESSION_EVENTS.includes(eventType)) {
+      return jsonResponse({ error: 'invalid_request', message: 'Unknown eventType' }, 400);
+    }
+
+    // Events are attributed to the caller's JWT, never to the body
+    const userClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'unauthorized', message: 'Not authenticated' }, 401);
+    }
+
+    const supabase = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { error: insertError } = await supabase
+      .from('security_events')
+      .insert({
+        user_id: user.id,
+        email: user.email ?? null,
+        event_type: eventType,
+        device_id: typeof deviceId === 'string' ? deviceId.slice(0, 64) : null,
+        ip_address: getClientIp(req) || null,
+        user_agent: req.headers.get('user-agent'),
+        details: eventType === 'sign_out' && SIGN_OUT_REASONS.includes(reason) ? { reason } : null,
+      });
+
+    if (insertError) throw insertError;
+
+    return jsonResponse({ success: true });
+
+  } catch (error) {
+    console.error('Error in record-auth-event:', error);
+    return jsonResponse({
+      error: 'Failed to record auth event',
+      details: error.message
+    }, 500);
+  }
+});
@@ -0,0 +1,86 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { getClientIp } from '../_shared/client-ip.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+
+    // Resolve the caller from their JWT
+    const userClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'unauthorized', message: 'Not authenticated' }, 401);
+    }
+
+    const { courseId, password } = await req.json();
+
+    if (typeof courseId !== 'string' || typeof password !== 'string' || !password.trim()) {
+      return jsonResponse({ error: 'invalid_request', message: 'courseId and password are required' }, 400);
+    }
+
+    const supabase = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    console.log('Redeeming course password:', { userId: user.id, courseId });
+
+    // Check, mark used and activate the subscription in one transaction.
+    // Failed attempts are throttled per user and per IP.
+    const { data: result, error: redeemError } = await supabase.rpc('redeem_course_password', {
+      _user_id: user.id,
+      _course_id: courseId,
+      _password: password.trim(),
+      _ip_address: getClientIp(req),
+    });
+
+    if (redeemError) {
+      if (redeemError.message === 'course_not_found') {
+        return jsonResponse({ error: 'course_not_found', message: 'Course not found' }, 404);
+      }
+      throw redeemError;
+    }
+
+    if (result.status === 'locked') {
+      return jsonResponse({
+        error: 'too_many_attempts',
+        message: 'Too many failed attempts, try again later',
+        lockedUntil: result.locked_until,
+      }, 429);
+    }
+    if (result.status === 'invalid_password') {
+      return jsonResponse({ error: 'invalid_password', message: 'Password is invalid, used or expired' }, 400);
+    }
+
+    return jsonResponse({ success: true, endDate: result.end_date });
+
+  } catch (error) {
+    console.error('Error in redeem-course-password:', error);
+    return jsonResponse({
+      error: 'Failed to redeem course password',
+      details: error.message
+    }, 500);
+  }
+});
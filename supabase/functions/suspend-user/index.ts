@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Suspends a user (with a reason and optional end date) or lifts the
+// suspension. Suspending also revokes every refresh token of the user so
+// their current sessions end.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+
+    const userClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    );
+
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'unauthorized', message: 'Not authenticated' }, 401);
+    }
+
+    const { data: isAdmin, error: adminError } = await userClient.rpc('is_admin');
+
+    if (adminError) throw adminError;
+
+    if (!isAdmin) {
+      return jsonResponse({ error: 'forbidden', message: 'Only admins can suspend users' }, 403);
+    }
+
+    const { userId, action, reason, until } = await req.json();
+
+    if (typeof userId !== 'string' || (action !== 'suspend' && action !== 'lift')) {
+      return jsonResponse({ error: 'invalid_request', message: 'userId and action are required' }, 400);
+    }
+
+    if (userId === user.id) {
+      return jsonResponse({ error: 'invalid_request', message: 'Admins cannot suspend themselves' }, 400);
+    }
+
+    if (action === 'suspend') {
+      if (typeof reason !== 'string' || !reason.trim()) {
+        return jsonResponse({ error: 'invalid_request', message: 'A reason is required' }, 400);
+      }
+      if (until != null && (typeof until !== 'string' || isNaN(Date.parse(until)) || Date.parse(until) <= Date.now())) {
+        return jsonResponse({ error: 'invalid_request', message: 'until must be a future date' }, 400);
+      }
+    }
+
+    // Written as the admin so the audit log records who did it
+    const { data: updated, error: updateError } = await userClient
+      .from('profiles')
+      .update(action === 'suspend'
+        ? {
+            suspended_at: new Date().toISOString(),
+            suspended_until: until ?? null,
+            suspension_reason: reason.trim(),
+            suspended_by: user.id,
+          }
+        : {
+            suspended_at: null,
+            suspended_until: null,
+            suspension_reason: null,
+            suspended_by: null,
+          })
+      .eq('user_id', userId)
+      .select('id, user_id')
+      .maybeSingle();
+
+    if (updateError) throw updateError;
+
+    if (!updated) {
+      return jsonResponse({ error: 'not_found', message: 'User not found' }, 404);
+    }
+
+    if (action === 'suspend') {
+      const supabase = createClient(
+        supabaseUrl,
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+      );
+
+      const { error: revokeError } = await supabase.rpc('revoke_user_sessions', { _user_id: userId });
+
+      if (revokeError) throw revokeError;
+
+      // Revoking runs with the service role, which the audit trigger cannot attribute
+      const { error: auditError } = await supabase.rpc('log_service_action', {
+        _actor_id: user.id,
+        _action: 'revoke_sessions',
+        _target_table: 'profiles',
+        _target_id: updated.id,
+        _old_data: null,
+        _new_data: { user_id: userId },
+        _via: 'suspend-user',
+      });
+
+      if (auditError) throw auditError;
+    }
+
+    console.log(action === 'suspend' ? 'Suspended user:' : 'Lifted suspension:', { userId, adminId: user.id });
+
+    return jsonResponse({ success: true });
+
+  } catch (error) {
+    console.error('Error in suspend-user:', error);
+    return jsonResponse({
+      error: 'Failed to update suspension',
+      details: error.message
+    }, 500);
+  }
+});
@@ -0,0 +1,74 @@
+-- Redeem a course password server-side
+-- Checks the code, marks it used and creates or extends the subscription
+-- in a single transaction. Only callable with the service role (from the
+-- redeem-course-password edge function), never directly from the browser.
+CREATE OR REPLACE FUNCTION public.redeem_course_password(
+  _user_id UUID,
+  _course_id UUID,
+  _password TEXT
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  password_id UUID;
+  course_duration INTEGER;
+  current_end TIMESTAMP WITH TIME ZONE;
+  new_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT duration_months INTO course_duration
+  FROM courses
+  WHERE id = _course_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'course_not_found';
+  END IF;
+
+  -- Lock the password row so two concurrent redemptions cannot both succeed
+  SELECT id INTO password_id
+  FROM course_passwords
+  WHERE course_id = _course_id
+  AND password = _password
+  AND used = false
+  AND expires_at > now()
+  LIMIT 1
+  FOR UPDATE;
+
+  IF password_id IS NULL THEN
+    RAISE EXCEPTION 'invalid_password';
+  END IF;
+
+  UPDATE course_passwords
+  SET used = true
+  WHERE id = password_id;
+
+  -- Extend from the current end date if the subscription is still running
+  SELECT end_date INTO current_end
+  FROM subscriptions
+  WHERE user_id = _user_id
+  AND course_id = _course_id
+  AND status = 'active'
+  FOR UPDATE;
+
+  new_end := GREATEST(COALESCE(current_end, now()), now())
+    + make_interval(months => course_duration);
+
+  INSERT INTO subscriptions (user_id, course_id, status, start_date, end_date)
+  VALUES (_user_id, _course_id, 'active', now(), new_end)
+  ON CONFLICT (user_id, course_id) DO UPDATE
+  SET status = 'active',
+      start_date = CASE
+        WHEN subscriptions.status = 'active' AND subscriptions.end_date >= now()
+        THEN subscriptions.start_date
+        ELSE now()
+      END,
+      end_date = EXCLUDED.end_date;
+
+  RETURN new_end;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_course_password(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_course_password(UUID, UUID, TEXT) TO service_role;
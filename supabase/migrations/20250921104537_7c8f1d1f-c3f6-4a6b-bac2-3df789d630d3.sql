@@ -0,0 +1,63 @@
+-- Stop students from activating their own subscriptions
+-- Students may only submit pending requests with a payment receipt.
+-- Activation, renewal and expiry go through admins or server-side functions.
+DROP POLICY IF EXISTS "Users can create their own subscriptions" ON public.subscriptions;
+DROP POLICY IF EXISTS "Users can update their own subscriptions" ON public.subscriptions;
+
+-- Students can create pending requests pointing at a receipt in their own folder
+CREATE POLICY "Users can request subscriptions with payment proof"
+ON public.subscriptions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'pending'
+  AND payment_proof IS NOT NULL
+  AND (storage.foldername(payment_proof))[1] = auth.uid()::text
+  AND start_date IS NULL
+  AND end_date IS NULL
+);
+
+-- Students can resubmit a receipt for a request that is not active
+CREATE POLICY "Users can resubmit their subscription requests"
+ON public.subscriptions
+FOR UPDATE
+USING (
+  auth.uid() = user_id
+  AND status <> 'active'
+)
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'pending'
+  AND payment_proof IS NOT NULL
+  AND (storage.foldername(payment_proof))[1] = auth.uid()::text
+);
+
+-- Policies cannot compare against the old row, so a trigger keeps students
+-- from moving the subscription dates or switching it to another course.
+-- Admins and server-side SECURITY DEFINER functions are not affected.
+-- Runs as the invoker so current_user reflects the API role.
+CREATE OR REPLACE FUNCTION public.enforce_student_subscription_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.course_id IS DISTINCT FROM OLD.course_id
+    OR NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date THEN
+    RAISE EXCEPTION 'Only administrators can change subscription dates';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_student_subscription_update
+BEFORE UPDATE ON public.subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_student_subscription_update();
@@ -0,0 +1,82 @@
+-- Limit video playback to enrolled students
+-- A video is viewable when the student is approved and either has an active,
+-- unexpired subscription to a course containing it or an explicit grant in
+-- video_access. Admins can view everything.
+CREATE OR REPLACE FUNCTION public.can_view_video(_video_id UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF is_admin() THEN
+    RETURN true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = auth.uid()
+    AND p.approved = true
+  ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM course_videos cv
+    JOIN subscriptions s ON s.course_id = cv.course_id
+    WHERE cv.video_id = _video_id
+    AND s.user_id = auth.uid()
+    AND s.status = 'active'
+    AND s.start_date <= now()
+    AND s.end_date >= now()
+  ) OR EXISTS (
+    SELECT 1 FROM video_access va
+    WHERE va.video_id = _video_id
+    AND va.user_id = auth.uid()
+  );
+END;
+$$;
+
+-- Active courses that contain a video, so the player can point students
+-- who cannot watch it yet to the right subscription page
+CREATE OR REPLACE FUNCTION public.get_video_courses(_video_id UUID)
+RETURNS TABLE (id UUID, title TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.title
+  FROM course_videos cv
+  JOIN courses c ON c.id = cv.course_id
+  WHERE cv.video_id = _video_id
+  AND c.is_active = true
+  ORDER BY c.created_at;
+$$;
+
+-- Replace the approval-only video policy
+DROP POLICY IF EXISTS "Approved students can view ready videos" ON public.videos;
+
+CREATE POLICY "Enrolled students can view ready videos"
+ON public.videos
+FOR SELECT
+USING (
+  status = 'ready' AND can_view_video(id)
+);
+
+-- Replace the approval-only storage policy
+DROP POLICY IF EXISTS "Students can access videos they can view" ON storage.objects;
+
+CREATE POLICY "Students can access videos they can view"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'videos'
+  AND EXISTS (
+    SELECT 1 FROM videos v
+    WHERE v.file_path = name
+    AND v.status = 'ready'
+    AND can_view_video(v.id)
+  )
+);
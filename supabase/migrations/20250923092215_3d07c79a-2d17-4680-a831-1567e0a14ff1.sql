@@ -0,0 +1,45 @@
+-- Single-video grants managed by admins
+-- Covers gifts, make-up lessons and trial access, with an optional expiry
+ALTER TABLE public.video_access
+ADD COLUMN grant_type TEXT NOT NULL DEFAULT 'gift' CHECK (grant_type IN ('gift', 'makeup', 'trial')),
+ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN note TEXT,
+ADD COLUMN granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Honour grant expiry when checking video access
+CREATE OR REPLACE FUNCTION public.can_view_video(_video_id UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF is_admin() THEN
+    RETURN true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = auth.uid()
+    AND p.approved = true
+  ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM course_videos cv
+    JOIN subscriptions s ON s.course_id = cv.course_id
+    WHERE cv.video_id = _video_id
+    AND s.user_id = auth.uid()
+    AND s.status = 'active'
+    AND s.start_date <= now()
+    AND s.end_date >= now()
+  ) OR EXISTS (
+    SELECT 1 FROM video_access va
+    WHERE va.video_id = _video_id
+    AND va.user_id = auth.uid()
+    AND (va.expires_at IS NULL OR va.expires_at > now())
+  );
+END;
+$$;
@@ -0,0 +1,25 @@
+-- Log of every playback token issued by the get-playback-url edge function
+CREATE TABLE public.playback_issuances (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  ip_address TEXT,
+  user_agent TEXT,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX playback_issuances_user_id_idx ON public.playback_issuances (user_id, issued_at DESC);
+
+ALTER TABLE public.playback_issuances ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the edge function with the service role only
+CREATE POLICY "Admins can view playback issuances"
+ON public.playback_issuances
+FOR SELECT
+USING (is_admin());
+
+-- Students get file videos only through get-playback-url, which signs with the
+-- service role. Direct read access would let them sign their own long-lived
+-- URLs to the source file.
+DROP POLICY IF EXISTS "Students can access videos they can view" ON storage.objects;
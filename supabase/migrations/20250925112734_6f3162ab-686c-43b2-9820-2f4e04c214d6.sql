@@ -0,0 +1,168 @@
+-- Concurrent session and device limits per student
+
+-- Platform-wide settings editable by admins
+CREATE TABLE public.app_settings (
+  key TEXT NOT NULL PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage app settings"
+ON public.app_settings
+FOR ALL
+USING (is_admin());
+
+CREATE TRIGGER update_app_settings_updated_at
+BEFORE UPDATE ON public.app_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.app_settings (key, value) VALUES
+  ('max_devices_per_user', '2'),
+  ('max_concurrent_streams', '1');
+
+-- Devices a student has played videos from
+CREATE TABLE public.user_devices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  user_agent TEXT,
+  first_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE(user_id, device_id)
+);
+
+ALTER TABLE public.user_devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own devices"
+ON public.user_devices
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage all devices"
+ON public.user_devices
+FOR ALL
+USING (is_admin());
+
+-- A stream is active while its playback token has not expired
+ALTER TABLE public.playback_issuances
+ADD COLUMN device_id TEXT;
+
+CREATE INDEX playback_issuances_active_idx ON public.playback_issuances (user_id, expires_at);
+
+-- Register the device and check the limits before a playback token is issued.
+-- Returns 'ok', 'device_revoked', 'device_limit' or 'stream_limit'.
+CREATE OR REPLACE FUNCTION public.claim_playback_slot(
+  _user_id UUID,
+  _device_id TEXT,
+  _user_agent TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  device user_devices%ROWTYPE;
+  max_devices INTEGER;
+  max_streams INTEGER;
+BEGIN
+  SELECT COALESCE((SELECT value::text::integer FROM app_settings WHERE key = 'max_devices_per_user'), 2)
+  INTO max_devices;
+  SELECT COALESCE((SELECT value::text::integer FROM app_settings WHERE key = 'max_concurrent_streams'), 1)
+  INTO max_streams;
+
+  -- Serialize claims per user so parallel requests cannot exceed the limits
+  PERFORM pg_advisory_xact_lock(hashtext(_user_id::text));
+
+  SELECT * INTO device
+  FROM user_devices
+  WHERE user_id = _user_id AND device_id = _device_id;
+
+  IF FOUND AND device.revoked_at IS NOT NULL THEN
+    RETURN 'device_revoked';
+  END IF;
+
+  IF NOT FOUND THEN
+    IF (
+      SELECT count(*) FROM user_devices
+      WHERE user_id = _user_id AND revoked_at IS NULL
+    ) >= max_devices THEN
+      RETURN 'device_limit';
+    END IF;
+
+    INSERT INTO user_devices (user_id, device_id, user_agent)
+    VALUES (_user_id, _device_id, _user_agent);
+  ELSE
+    UPDATE user_devices
+    SET last_seen_at = now(), user_agent = _user_agent
+    WHERE id = device.id;
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT pi.device_id) FROM playback_issuances pi
+    WHERE pi.user_id = _user_id
+    AND pi.expires_at > now()
+    AND pi.device_id IS DISTINCT FROM _device_id
+  ) >= max_streams THEN
+    RETURN 'stream_limit';
+  END IF;
+
+  RETURN 'ok';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_playback_slot(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_playback_slot(UUID, TEXT, TEXT) TO service_role;
+
+-- Students revoke their own devices, admins revoke any
+CREATE OR REPLACE FUNCTION public.revoke_user_device(_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE user_devices
+  SET revoked_at = now()
+  WHERE id = _id
+  AND (user_id = auth.uid() OR is_admin());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Device not found';
+  END IF;
+
+  -- End any stream currently running on the revoked device
+  UPDATE playback_issuances pi
+  SET expires_at = now()
+  FROM user_devices d
+  WHERE d.id = _id
+  AND pi.user_id = d.user_id
+  AND pi.device_id = d.device_id
+  AND pi.expires_at > now();
+END;
+$$;
+
+-- Admins clear every device and active stream of a student
+CREATE OR REPLACE FUNCTION public.reset_user_devices(_user_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only administrators can reset devices';
+  END IF;
+
+  DELETE FROM user_devices WHERE user_id = _user_id;
+
+  UPDATE playback_issuances
+  SET expires_at = now()
+  WHERE user_id = _user_id
+  AND expires_at > now();
+END;
+$$;
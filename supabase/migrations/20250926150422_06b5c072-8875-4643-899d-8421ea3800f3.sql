@@ -0,0 +1,15 @@
+-- Encrypted HLS packaging for file videos
+
+-- Playlist of the packaged stream, set by the packager once all segments are uploaded
+ALTER TABLE public.videos
+ADD COLUMN hls_path TEXT;
+
+-- AES-128 content keys; only reachable through the service role (hls-key function)
+CREATE TABLE public.video_encryption_keys (
+  video_id UUID NOT NULL PRIMARY KEY REFERENCES public.videos(id) ON DELETE CASCADE,
+  key_hex TEXT NOT NULL,
+  iv_hex TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.video_encryption_keys ENABLE ROW LEVEL SECURITY;
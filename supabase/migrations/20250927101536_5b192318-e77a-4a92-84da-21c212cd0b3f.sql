@@ -0,0 +1,224 @@
+-- Hashed course access codes and throttled redemption
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Codes are stored as SHA-256 of the upper-cased code; only a short hint stays
+-- readable so admins can tell codes apart
+ALTER TABLE public.course_passwords
+ADD COLUMN password_hash TEXT,
+ADD COLUMN code_hint TEXT;
+
+UPDATE public.course_passwords
+SET password_hash = encode(extensions.digest(upper(password), 'sha256'), 'hex'),
+    code_hint = right(upper(password), 3);
+
+ALTER TABLE public.course_passwords
+ALTER COLUMN password_hash SET NOT NULL,
+ALTER COLUMN code_hint SET NOT NULL,
+DROP COLUMN password;
+
+CREATE INDEX idx_course_passwords_hash ON public.course_passwords(course_id, password_hash);
+
+-- Create a code from the plaintext chosen or generated by an admin.
+-- The plaintext is never stored; the caller shows it once.
+CREATE OR REPLACE FUNCTION public.create_course_password(
+  _course_id UUID,
+  _password TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+  code TEXT := upper(trim(_password));
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create course passwords';
+  END IF;
+
+  IF length(code) < 6 THEN
+    RAISE EXCEPTION 'password_too_short';
+  END IF;
+
+  INSERT INTO course_passwords (course_id, password_hash, code_hint)
+  VALUES (_course_id, encode(extensions.digest(code, 'sha256'), 'hex'), right(code, 3))
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+-- Every redemption attempt, used to throttle guessing
+CREATE TABLE public.redemption_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_id UUID REFERENCES public.courses(id) ON DELETE SET NULL,
+  ip_address TEXT,
+  succeeded BOOLEAN NOT NULL,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.redemption_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_redemption_attempts_user ON public.redemption_attempts(user_id, attempted_at);
+CREATE INDEX idx_redemption_attempts_ip ON public.redemption_attempts(ip_address, attempted_at);
+
+-- Lockouts triggered by too many failures, kept for admins to review
+CREATE TABLE public.redemption_lockouts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  ip_address TEXT,
+  scope TEXT NOT NULL CHECK (scope IN ('user', 'ip')),
+  failed_attempts INTEGER NOT NULL,
+  locked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_until TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+ALTER TABLE public.redemption_lockouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage redemption lockouts"
+ON public.redemption_lockouts
+FOR ALL
+USING (is_admin());
+
+CREATE INDEX idx_redemption_lockouts_active ON public.redemption_lockouts(locked_until);
+
+-- Redemption now compares hashes and records every attempt. Failures are
+-- returned instead of raised so the attempt and any lockout are committed.
+DROP FUNCTION public.redeem_course_password(UUID, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.redeem_course_password(
+  _user_id UUID,
+  _course_id UUID,
+  _password TEXT,
+  _ip_address TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  max_user_failures CONSTANT INTEGER := 5;
+  max_ip_failures CONSTANT INTEGER := 20;
+  failure_window CONSTANT INTERVAL := interval '15 minutes';
+  lockout_duration CONSTANT INTERVAL := interval '30 minutes';
+  ip TEXT := NULLIF(_ip_address, '');
+  active_lock TIMESTAMP WITH TIME ZONE;
+  last_user_lock TIMESTAMP WITH TIME ZONE;
+  last_ip_lock TIMESTAMP WITH TIME ZONE;
+  user_failures INTEGER;
+  ip_failures INTEGER;
+  password_id UUID;
+  course_duration INTEGER;
+  current_end TIMESTAMP WITH TIME ZONE;
+  new_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Serialise attempts per user so failure counts cannot race
+  PERFORM pg_advisory_xact_lock(hashtext('redeem_course_password:' || _user_id::text));
+
+  SELECT max(locked_until) INTO active_lock
+  FROM redemption_lockouts
+  WHERE (user_id = _user_id OR (ip IS NOT NULL AND ip_address = ip))
+  AND locked_until > now();
+
+  IF active_lock IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'locked', 'locked_until', active_lock);
+  END IF;
+
+  SELECT duration_months INTO course_duration
+  FROM courses
+  WHERE id = _course_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'course_not_found';
+  END IF;
+
+  -- Lock the password row so two concurrent redemptions cannot both succeed
+  SELECT id INTO password_id
+  FROM course_passwords
+  WHERE course_id = _course_id
+  AND password_hash = encode(extensions.digest(upper(trim(_password)), 'sha256'), 'hex')
+  AND used = false
+  AND expires_at > now()
+  LIMIT 1
+  FOR UPDATE;
+
+  INSERT INTO redemption_attempts (user_id, course_id, ip_address, succeeded)
+  VALUES (_user_id, _course_id, ip, password_id IS NOT NULL);
+
+  IF password_id IS NULL THEN
+    -- Only failures after the previous lockout count towards the next one
+    SELECT max(locked_until) INTO last_user_lock
+    FROM redemption_lockouts
+    WHERE user_id = _user_id AND scope = 'user';
+
+    SELECT count(*) INTO user_failures
+    FROM redemption_attempts
+    WHERE user_id = _user_id
+    AND NOT succeeded
+    AND attempted_at > GREATEST(now() - failure_window, COALESCE(last_user_lock, '-infinity'));
+
+    IF user_failures >= max_user_failures THEN
+      INSERT INTO redemption_lockouts (user_id, ip_address, scope, failed_attempts, locked_until)
+      VALUES (_user_id, ip, 'user', user_failures, now() + lockout_duration);
+
+      RETURN jsonb_build_object('status', 'locked', 'locked_until', now() + lockout_duration);
+    END IF;
+
+    IF ip IS NOT NULL THEN
+      SELECT max(locked_until) INTO last_ip_lock
+      FROM redemption_lockouts
+      WHERE ip_address = ip AND scope = 'ip';
+
+      SELECT count(*) INTO ip_failures
+      FROM redemption_attempts
+      WHERE ip_address = ip
+      AND NOT succeeded
+      AND attempted_at > GREATEST(now() - failure_window, COALESCE(last_ip_lock, '-infinity'));
+
+      IF ip_failures >= max_ip_failures THEN
+        INSERT INTO redemption_lockouts (user_id, ip_address, scope, failed_attempts, locked_until)
+        VALUES (_user_id, ip, 'ip', ip_failures, now() + lockout_duration);
+
+        RETURN jsonb_build_object('status', 'locked', 'locked_until', now() + lockout_duration);
+      END IF;
+    END IF;
+
+    RETURN jsonb_build_object('status', 'invalid_password');
+  END IF;
+
+  UPDATE course_passwords
+  SET used = true
+  WHERE id = password_id;
+
+  -- Extend from the current end date if the subscription is still running
+  SELECT end_date INTO current_end
+  FROM subscriptions
+  WHERE user_id = _user_id
+  AND course_id = _course_id
+  AND status = 'active'
+  FOR UPDATE;
+
+  new_end := GREATEST(COALESCE(current_end, now()), now())
+    + make_interval(months => course_duration);
+
+  INSERT INTO subscriptions (user_id, course_id, status, start_date, end_date)
+  VALUES (_user_id, _course_id, 'active', now(), new_end)
+  ON CONFLICT (user_id, course_id) DO UPDATE
+  SET status = 'active',
+      start_date = CASE
+        WHEN subscriptions.status = 'active' AND subscriptions.end_date >= now()
+        THEN subscriptions.start_date
+        ELSE now()
+      END,
+      end_date = EXCLUDED.end_date;
+
+  RETURN jsonb_build_object('status', 'ok', 'end_date', new_end);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.redeem_course_password(UUID, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_course_password(UUID, UUID, TEXT, TEXT) TO service_role;
@@ -0,0 +1,132 @@
+-- Append-only audit log of privileged changes
+
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_id UUID,
+  actor_role TEXT,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  target_table TEXT NOT NULL,
+  target_id TEXT,
+  old_data JSONB,
+  new_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log"
+ON public.audit_log
+FOR SELECT
+USING (is_admin());
+
+CREATE INDEX idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX idx_audit_log_target ON public.audit_log(target_table, target_id);
+CREATE INDEX idx_audit_log_actor ON public.audit_log(actor_id);
+
+-- Entries can never be changed or removed, not even with the service role
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER audit_log_no_truncate
+BEFORE TRUNCATE ON public.audit_log
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- Records changes made by staff (any role other than student).
+-- Students' own actions and background jobs are not privileged and are skipped.
+CREATE OR REPLACE FUNCTION public.log_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_role app_role;
+  old_row JSONB;
+  new_row JSONB;
+BEGIN
+  SELECT role INTO actor_role
+  FROM profiles
+  WHERE user_id = auth.uid();
+
+  IF actor_role IS NULL OR actor_role = 'student' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Never copy code hashes into the log
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD) - 'password_hash';
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW) - 'password_hash';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND old_row = new_row THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_role, action, target_table, target_id, old_data, new_data)
+  VALUES (
+    auth.uid(),
+    actor_role,
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    COALESCE(new_row, old_row) ->> 'id',
+    old_row,
+    new_row
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_profiles
+AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_subscriptions
+AFTER INSERT OR UPDATE OR DELETE ON public.subscriptions
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_courses
+AFTER INSERT OR UPDATE OR DELETE ON public.courses
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_course_videos
+AFTER INSERT OR UPDATE OR DELETE ON public.course_videos
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_course_passwords
+AFTER INSERT OR UPDATE OR DELETE ON public.course_passwords
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_videos
+AFTER INSERT OR UPDATE OR DELETE ON public.videos
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_video_access
+AFTER INSERT OR UPDATE OR DELETE ON public.video_access
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_app_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.app_settings
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_user_devices
+AFTER INSERT OR UPDATE OR DELETE ON public.user_devices
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_redemption_lockouts
+AFTER INSERT OR UPDATE OR DELETE ON public.redemption_lockouts
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
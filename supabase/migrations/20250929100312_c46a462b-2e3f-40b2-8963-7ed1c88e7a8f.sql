@@ -0,0 +1,4 @@
+-- Staff roles besides admin. Kept in their own migration because new enum
+-- values cannot be used in the transaction that adds them.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'instructor';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'support';
@@ -0,0 +1,286 @@
+-- Instructor and support roles
+-- Instructors manage only the courses assigned to them and the videos they
+-- uploaded or that belong to those courses. Support staff review payment
+-- receipts and approve subscription requests but cannot delete content.
+
+-- Courses assigned to instructors
+CREATE TABLE public.course_instructors (
+  course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (course_id, user_id)
+);
+
+ALTER TABLE public.course_instructors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Instructors can view their assignments"
+ON public.course_instructors
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage course instructors"
+ON public.course_instructors
+FOR ALL
+USING (is_admin());
+
+CREATE TRIGGER audit_course_instructors
+AFTER INSERT OR UPDATE OR DELETE ON public.course_instructors
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Who uploaded a video, so instructors can manage it before it is in a course
+ALTER TABLE public.videos
+ADD COLUMN uploaded_by UUID DEFAULT auth.uid();
+
+-- Role helpers
+CREATE OR REPLACE FUNCTION public.has_role(_role app_role)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid()
+    AND role = _role
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_staff()
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = auth.uid()
+    AND role IN ('admin', 'instructor', 'support')
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_review_payments()
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN is_admin() OR has_role('support');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_course(_course_id UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF is_admin() THEN
+    RETURN true;
+  END IF;
+
+  RETURN has_role('instructor') AND EXISTS (
+    SELECT 1 FROM course_instructors
+    WHERE course_id = _course_id
+    AND user_id = auth.uid()
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_video(_video_id UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF is_admin() THEN
+    RETURN true;
+  END IF;
+
+  IF NOT has_role('instructor') THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM videos
+    WHERE id = _video_id
+    AND uploaded_by = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM course_videos cv
+    JOIN course_instructors ci ON ci.course_id = cv.course_id
+    WHERE cv.video_id = _video_id
+    AND ci.user_id = auth.uid()
+  );
+END;
+$$;
+
+-- Storage objects of a video: the uploaded file and its HLS folder
+CREATE OR REPLACE FUNCTION public.can_manage_video_object(_name TEXT)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM videos v
+    WHERE (v.file_path = _name OR _name LIKE 'hls/' || v.id || '/%')
+    AND can_manage_video(v.id)
+  );
+END;
+$$;
+
+-- Staff can always play the videos they manage
+CREATE OR REPLACE FUNCTION public.can_view_video(_video_id UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF can_manage_video(_video_id) THEN
+    RETURN true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = auth.uid()
+    AND p.approved = true
+  ) THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM course_videos cv
+    JOIN subscriptions s ON s.course_id = cv.course_id
+    WHERE cv.video_id = _video_id
+    AND s.user_id = auth.uid()
+    AND s.status = 'active'
+    AND s.start_date <= now()
+    AND s.end_date >= now()
+  ) OR EXISTS (
+    SELECT 1 FROM video_access va
+    WHERE va.video_id = _video_id
+    AND va.user_id = auth.uid()
+    AND (va.expires_at IS NULL OR va.expires_at > now())
+  );
+END;
+$$;
+
+-- Courses: instructors edit their assigned courses; staff see inactive ones too
+CREATE POLICY "Staff can view all courses"
+ON public.courses
+FOR SELECT
+USING (is_staff());
+
+CREATE POLICY "Instructors can update their courses"
+ON public.courses
+FOR UPDATE
+USING (has_role('instructor') AND can_manage_course(id))
+WITH CHECK (has_role('instructor') AND can_manage_course(id));
+
+-- Course videos: instructors only attach videos they manage to their courses
+CREATE POLICY "Instructors can manage their course videos"
+ON public.course_videos
+FOR ALL
+USING (has_role('instructor') AND can_manage_course(course_id))
+WITH CHECK (has_role('instructor') AND can_manage_course(course_id) AND can_manage_video(video_id));
+
+-- Videos: instructors upload and manage their own
+CREATE POLICY "Instructors can upload videos"
+ON public.videos
+FOR INSERT
+WITH CHECK (has_role('instructor') AND uploaded_by = auth.uid());
+
+CREATE POLICY "Instructors can view their videos"
+ON public.videos
+FOR SELECT
+USING (has_role('instructor') AND (uploaded_by = auth.uid() OR can_manage_video(id)));
+
+CREATE POLICY "Instructors can update their videos"
+ON public.videos
+FOR UPDATE
+USING (has_role('instructor') AND can_manage_video(id));
+
+CREATE POLICY "Instructors can delete their videos"
+ON public.videos
+FOR DELETE
+USING (has_role('instructor') AND can_manage_video(id));
+
+CREATE POLICY "Instructors can upload video files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'videos' AND has_role('instructor'));
+
+CREATE POLICY "Instructors can manage their video files"
+ON storage.objects
+FOR ALL
+USING (bucket_id = 'videos' AND has_role('instructor') AND can_manage_video_object(name));
+
+-- Support: review receipts and subscription requests
+CREATE POLICY "Support can view profiles"
+ON public.profiles
+FOR SELECT
+USING (has_role('support'));
+
+CREATE POLICY "Support can view subscriptions"
+ON public.subscriptions
+FOR SELECT
+USING (has_role('support'));
+
+CREATE POLICY "Support can review subscriptions"
+ON public.subscriptions
+FOR UPDATE
+USING (has_role('support'));
+
+-- Rejecting a request removes it; active subscriptions stay admin-only
+CREATE POLICY "Support can reject pending subscriptions"
+ON public.subscriptions
+FOR DELETE
+USING (has_role('support') AND status = 'pending');
+
+CREATE POLICY "Support can view payment receipts"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'payment-receipts' AND has_role('support'));
+
+-- Approving a request clears its receipt
+CREATE POLICY "Support can remove reviewed payment receipts"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'payment-receipts' AND has_role('support'));
+
+-- Support approves subscriptions, so it may set their dates too
+CREATE OR REPLACE FUNCTION public.enforce_student_subscription_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR can_review_payments() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.course_id IS DISTINCT FROM OLD.course_id
+    OR NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date THEN
+    RAISE EXCEPTION 'Only administrators can change subscription dates';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
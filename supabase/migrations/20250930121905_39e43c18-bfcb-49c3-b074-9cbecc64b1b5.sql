@@ -0,0 +1,83 @@
+-- TOTP two-factor authentication for admins
+
+-- Admin rights now require a session verified with a second factor (aal2).
+-- Admins without a factor can still sign in and enroll one from the dashboard.
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_role app_role;
+BEGIN
+  SELECT role INTO user_role
+  FROM profiles
+  WHERE user_id = auth.uid()
+  LIMIT 1;
+
+  RETURN user_role = 'admin' AND COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2';
+END;
+$$;
+
+-- One-time recovery codes, stored as SHA-256 of the normalised code
+CREATE TABLE public.mfa_recovery_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own recovery codes"
+ON public.mfa_recovery_codes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_mfa_recovery_codes_user ON public.mfa_recovery_codes(user_id);
+
+-- Replace the caller's recovery codes. Only allowed from a session that has
+-- just passed TOTP, so a stolen password cannot mint new codes.
+CREATE OR REPLACE FUNCTION public.replace_mfa_recovery_codes(_codes TEXT[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'mfa_required';
+  END IF;
+
+  DELETE FROM mfa_recovery_codes
+  WHERE user_id = auth.uid();
+
+  INSERT INTO mfa_recovery_codes (user_id, code_hash)
+  SELECT auth.uid(), encode(extensions.digest(upper(replace(code, '-', '')), 'sha256'), 'hex')
+  FROM unnest(_codes) AS code;
+END;
+$$;
+
+-- Mark a recovery code used. Only callable with the service role, from the
+-- mfa-recovery edge function which then removes the lost factor.
+CREATE OR REPLACE FUNCTION public.consume_mfa_recovery_code(_user_id UUID, _code TEXT)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE mfa_recovery_codes
+  SET used_at = now()
+  WHERE user_id = _user_id
+  AND used_at IS NULL
+  AND code_hash = encode(extensions.digest(upper(replace(trim(_code), '-', '')), 'sha256'), 'hex');
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT) TO service_role;
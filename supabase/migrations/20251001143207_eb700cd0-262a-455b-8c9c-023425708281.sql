@@ -0,0 +1,41 @@
+-- Record when an admin previews the platform as a particular student
+
+ALTER TABLE public.audit_log
+DROP CONSTRAINT audit_log_action_check;
+
+ALTER TABLE public.audit_log
+ADD CONSTRAINT audit_log_action_check
+CHECK (action IN ('insert', 'update', 'delete', 'impersonate'));
+
+CREATE OR REPLACE FUNCTION public.log_impersonation(_student_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  student profiles%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view the platform as a student';
+  END IF;
+
+  SELECT * INTO student
+  FROM profiles
+  WHERE user_id = _student_id AND role = 'student';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found';
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_role, action, target_table, target_id, new_data)
+  VALUES (
+    auth.uid(),
+    'admin',
+    'impersonate',
+    'profiles',
+    student.id::text,
+    jsonb_build_object('user_id', student.user_id, 'email', student.email)
+  );
+END;
+$$;
@@ -0,0 +1,58 @@
+-- Self-service account deletion: students ask, an admin confirms, and the
+-- delete-account function removes the auth user so everything below cascades.
+
+-- Subscriptions were never tied to the profile; clear orphans and cascade now
+DELETE FROM public.subscriptions s
+WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.user_id = s.user_id);
+
+ALTER TABLE public.subscriptions
+ADD CONSTRAINT subscriptions_user_id_fkey
+FOREIGN KEY (user_id) REFERENCES public.profiles(user_id) ON DELETE CASCADE;
+
+CREATE TABLE public.account_deletion_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open request per user
+CREATE UNIQUE INDEX idx_account_deletion_requests_pending
+ON public.account_deletion_requests(user_id)
+WHERE status = 'pending';
+
+ALTER TABLE public.account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their deletion requests"
+ON public.account_deletion_requests
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can request deletion of their account"
+ON public.account_deletion_requests
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'pending'
+  AND reviewed_by IS NULL
+  AND reviewed_at IS NULL
+);
+
+-- Withdrawing a request simply removes it
+CREATE POLICY "Users can withdraw pending deletion requests"
+ON public.account_deletion_requests
+FOR DELETE
+USING (auth.uid() = user_id AND status = 'pending');
+
+CREATE POLICY "Admins can manage deletion requests"
+ON public.account_deletion_requests
+FOR ALL
+USING (is_admin())
+WITH CHECK (is_admin());
+
+CREATE TRIGGER audit_account_deletion_requests
+AFTER INSERT OR UPDATE OR DELETE ON public.account_deletion_requests
+FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
@@ -0,0 +1,108 @@
+-- Suspensions: an admin can block a user for a while (or indefinitely) with a
+-- reason the user sees. The suspend-user function also ends their sessions.
+
+ALTER TABLE public.profiles
+ADD COLUMN suspended_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN suspended_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN suspension_reason TEXT,
+ADD COLUMN suspended_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- No end date means the suspension lasts until an admin lifts it
+CREATE OR REPLACE FUNCTION public.is_suspended(_user_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE user_id = _user_id
+    AND suspended_at IS NOT NULL
+    AND (suspended_until IS NULL OR suspended_until > now())
+  );
+$$;
+
+-- Users may still update their own profile row, but never the fields that
+-- grant or block access. Admins and server-side code are not affected.
+CREATE OR REPLACE FUNCTION public.enforce_profile_self_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.approved IS DISTINCT FROM OLD.approved
+    OR NEW.suspended_at IS DISTINCT FROM OLD.suspended_at
+    OR NEW.suspended_until IS DISTINCT FROM OLD.suspended_until
+    OR NEW.suspension_reason IS DISTINCT FROM OLD.suspension_reason
+    OR NEW.suspended_by IS DISTINCT FROM OLD.suspended_by THEN
+    RAISE EXCEPTION 'Only administrators can change roles, approval or suspensions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_profile_self_update
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_profile_self_update();
+
+-- Ends every session of a user; their access token lapses within jwt_expiry
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+  DELETE FROM auth.refresh_tokens WHERE user_id = _user_id::text;
+  DELETE FROM auth.sessions WHERE user_id = _user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.revoke_user_sessions(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_user_sessions(UUID) TO service_role;
+
+-- Suspended students lose playback immediately, before their token expires
+CREATE OR REPLACE FUNCTION public.can_view_video(_video_id UUID)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF can_manage_video(_video_id) THEN
+    RETURN true;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = auth.uid()
+    AND p.approved = true
+  ) OR is_suspended(auth.uid()) THEN
+    RETURN false;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM course_videos cv
+    JOIN subscriptions s ON s.course_id = cv.course_id
+    WHERE cv.video_id = _video_id
+    AND s.user_id = auth.uid()
+    AND s.status = 'active'
+    AND s.start_date <= now()
+    AND s.end_date >= now()
+  ) OR EXISTS (
+    SELECT 1 FROM video_access va
+    WHERE va.video_id = _video_id
+    AND va.user_id = auth.uid()
+    AND (va.expires_at IS NULL OR va.expires_at > now())
+  );
+END;
+$$;
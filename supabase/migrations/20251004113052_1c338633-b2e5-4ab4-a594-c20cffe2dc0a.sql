@@ -0,0 +1,31 @@
+-- Login history: sign-ins, sign-outs, failed attempts and password changes.
+-- Written only by the record-auth-event function, which takes the IP and
+-- user agent from the request itself.
+
+CREATE TABLE public.security_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  event_type TEXT NOT NULL CHECK (event_type IN ('sign_in', 'sign_out', 'sign_in_failed', 'password_changed')),
+  device_id TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  details JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.security_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their security events"
+ON public.security_events
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all security events"
+ON public.security_events
+FOR SELECT
+USING (is_admin());
+
+CREATE INDEX idx_security_events_user ON public.security_events(user_id, created_at DESC);
+CREATE INDEX idx_security_events_failed_ip ON public.security_events(ip_address, created_at DESC)
+WHERE event_type = 'sign_in_failed';
@@ -0,0 +1,39 @@
+-- Destructive actions (deleting courses, videos and accounts) require the
+-- password to be entered again. The reauthenticate function checks it and
+-- stamps the time; the stamp is only valid for a few minutes.
+
+CREATE TABLE public.reauthentications (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No policies: only the reauthenticate function (service role) writes here
+ALTER TABLE public.reauthentications ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.has_recent_reauthentication()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM reauthentications
+    WHERE user_id = auth.uid()
+    AND verified_at > now() - interval '5 minutes'
+  );
+$$;
+
+-- Restrictive policies are combined with AND, so they apply on top of the
+-- existing admin and instructor delete policies
+CREATE POLICY "Deleting courses requires reauthentication"
+ON public.courses
+AS RESTRICTIVE
+FOR DELETE
+USING (has_recent_reauthentication());
+
+CREATE POLICY "Deleting videos requires reauthentication"
+ON public.videos
+AS RESTRICTIVE
+FOR DELETE
+USING (has_recent_reauthentication());
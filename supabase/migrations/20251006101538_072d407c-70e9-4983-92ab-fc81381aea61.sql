@@ -0,0 +1,98 @@
+-- Media processing for uploaded videos. process-video-upload queues the video;
+-- worker/video-processor.ts probes it with ffprobe, transcodes web-friendly
+-- MP4 renditions with ffmpeg and only then marks it ready.
+
+ALTER TABLE public.videos
+ADD COLUMN width INTEGER,
+ADD COLUMN height INTEGER,
+ADD COLUMN video_codec TEXT,
+ADD COLUMN audio_codec TEXT,
+ADD COLUMN file_size_bytes BIGINT,
+ADD COLUMN processing_queued_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN processing_started_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_videos_processing_queue ON public.videos(processing_queued_at)
+WHERE status = 'processing' AND processing_queued_at IS NOT NULL;
+
+-- One H.264/AAC MP4 per target height, stored under renditions/<video id>/
+CREATE TABLE public.video_renditions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  width INTEGER NOT NULL,
+  height INTEGER NOT NULL,
+  bitrate_kbps INTEGER,
+  file_path TEXT NOT NULL,
+  file_size_bytes BIGINT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (video_id, height)
+);
+
+ALTER TABLE public.video_renditions ENABLE ROW LEVEL SECURITY;
+
+-- Written by the worker only; playback signs the files server-side
+CREATE POLICY "Staff can view renditions of videos they manage"
+ON public.video_renditions
+FOR SELECT
+USING (can_manage_video(video_id));
+
+-- Rendition files belong to the video like its HLS folder does
+CREATE OR REPLACE FUNCTION public.can_manage_video_object(_name TEXT)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM videos v
+    WHERE (
+      v.file_path = _name
+      OR _name LIKE 'hls/' || v.id || '/%'
+      OR _name LIKE 'renditions/' || v.id || '/%'
+    )
+    AND can_manage_video(v.id)
+  );
+END;
+$$;
+
+-- Uploaded videos leave 'processing' only through the worker, so nobody can
+-- publish a file that was never probed and transcoded
+CREATE OR REPLACE FUNCTION public.enforce_video_processing_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR NEW.video_type IS DISTINCT FROM 'file' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status <> 'processing' THEN
+    RAISE EXCEPTION 'Uploaded videos must start in processing';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'processing' AND NEW.status <> 'processing' THEN
+    RAISE EXCEPTION 'Uploaded videos become ready once processing succeeds';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.width IS DISTINCT FROM OLD.width
+    OR NEW.height IS DISTINCT FROM OLD.height
+    OR NEW.video_codec IS DISTINCT FROM OLD.video_codec
+    OR NEW.audio_codec IS DISTINCT FROM OLD.audio_codec
+    OR NEW.file_size_bytes IS DISTINCT FROM OLD.file_size_bytes
+    OR NEW.processing_queued_at IS DISTINCT FROM OLD.processing_queued_at
+    OR NEW.processing_started_at IS DISTINCT FROM OLD.processing_started_at
+  ) THEN
+    RAISE EXCEPTION 'Media details are set by the processing worker';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_video_processing_status
+BEFORE INSERT OR UPDATE ON public.videos
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_video_processing_status();
@@ -0,0 +1,46 @@
+-- Failed processing: the media worker marks a video 'failed' with the error
+-- instead of leaving it in 'processing'. process-video-upload queues failed
+-- and never-queued uploads again.
+
+ALTER TYPE public.video_status ADD VALUE IF NOT EXISTS 'failed';
+
+ALTER TABLE public.videos
+ADD COLUMN processing_error TEXT,
+ADD COLUMN processing_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- Same rules as before, now also covering failed videos and the new columns
+CREATE OR REPLACE FUNCTION public.enforce_video_processing_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR NEW.video_type IS DISTINCT FROM 'file' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status::text <> 'processing' THEN
+    RAISE EXCEPTION 'Uploaded videos must start in processing';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status::text IN ('processing', 'failed') AND NEW.status <> OLD.status THEN
+    RAISE EXCEPTION 'Uploaded videos become ready once processing succeeds';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.width IS DISTINCT FROM OLD.width
+    OR NEW.height IS DISTINCT FROM OLD.height
+    OR NEW.video_codec IS DISTINCT FROM OLD.video_codec
+    OR NEW.audio_codec IS DISTINCT FROM OLD.audio_codec
+    OR NEW.file_size_bytes IS DISTINCT FROM OLD.file_size_bytes
+    OR NEW.processing_queued_at IS DISTINCT FROM OLD.processing_queued_at
+    OR NEW.processing_started_at IS DISTINCT FROM OLD.processing_started_at
+    OR NEW.processing_error IS DISTINCT FROM OLD.processing_error
+    OR NEW.processing_attempts IS DISTINCT FROM OLD.processing_attempts
+  ) THEN
+    RAISE EXCEPTION 'Media details are set by the processing worker';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
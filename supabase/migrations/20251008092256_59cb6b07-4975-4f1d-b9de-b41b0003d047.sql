@@ -0,0 +1,41 @@
+-- Video thumbnails in the public thumbnails bucket, under <video id>/.
+-- The media worker extracts frame-1..4.jpg and uses the first one; staff who
+-- manage the video can pick another frame or upload their own image.
+
+ALTER TABLE public.videos
+ADD COLUMN thumbnail_path TEXT;
+
+CREATE OR REPLACE FUNCTION public.can_manage_thumbnail_object(_name TEXT)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM videos v
+    WHERE _name LIKE v.id || '/%'
+    AND can_manage_video(v.id)
+  );
+END;
+$$;
+
+-- The original policy let any admin write anywhere in the bucket, without
+-- two-factor; uploads are now tied to a video the uploader manages
+DROP POLICY IF EXISTS "Admins can upload thumbnails" ON storage.objects;
+
+CREATE POLICY "Staff can upload thumbnails of videos they manage"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'thumbnails' AND can_manage_thumbnail_object(name));
+
+CREATE POLICY "Staff can replace thumbnails of videos they manage"
+ON storage.objects
+FOR UPDATE
+USING (bucket_id = 'thumbnails' AND can_manage_thumbnail_object(name));
+
+CREATE POLICY "Staff can delete thumbnails of videos they manage"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'thumbnails' AND can_manage_thumbnail_object(name));
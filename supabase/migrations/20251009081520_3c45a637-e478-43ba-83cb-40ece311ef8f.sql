@@ -0,0 +1,6 @@
+-- Video files are uploaded with the resumable (TUS) endpoint, so the videos
+-- bucket accepts files well past the old single-request limit. The project-wide
+-- storage limit has to be raised to match.
+UPDATE storage.buckets
+SET file_size_limit = 5368709120 -- 5 GiB
+WHERE id = 'videos';
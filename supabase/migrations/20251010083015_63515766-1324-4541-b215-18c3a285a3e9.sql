@@ -0,0 +1,27 @@
+-- Students read videos through a view without the storage columns. With
+-- file_path or hls_path in hand they could bypass get-playback-url and its
+-- per-user tokens, device limits and HLS encryption.
+DROP POLICY IF EXISTS "Enrolled students can view ready videos" ON public.videos;
+
+-- Runs with the owner's rights; the WHERE clause does what the dropped policy did
+CREATE VIEW public.viewable_videos
+WITH (security_barrier = true)
+AS
+SELECT
+  v.id,
+  v.title,
+  v.description,
+  v.video_type,
+  v.video_url,
+  v.duration_seconds,
+  v.thumbnail_path,
+  v.width,
+  v.height,
+  v.status,
+  v.created_at
+FROM public.videos v
+WHERE v.status = 'ready'
+AND can_view_video(v.id);
+
+REVOKE ALL ON public.viewable_videos FROM anon;
+GRANT SELECT ON public.viewable_videos TO authenticated;
@@ -0,0 +1,25 @@
+-- Failed sign-ins used to be reported by the browser through the public
+-- record-auth-event endpoint, so anyone could forge them for any email and
+-- direct calls to the auth API were never seen. The auth server now reports
+-- every password check to this hook instead.
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (event->>'valid')::boolean THEN
+    INSERT INTO security_events (user_id, email, event_type)
+    SELECT u.id, u.email, 'sign_in_failed'
+    FROM auth.users u
+    WHERE u.id = (event->>'user_id')::uuid;
+  END IF;
+
+  -- Lockout is left to the auth server's own rate limits
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) FROM authenticated, anon, public;
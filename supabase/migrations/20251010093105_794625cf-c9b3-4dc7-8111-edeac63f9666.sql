@@ -0,0 +1,14 @@
+-- Wrong passwords entered in the reauthentication dialog. Kept apart from
+-- security_events so nothing but the reauthenticate function can add rows
+-- and lock an account out of destructive actions.
+CREATE TABLE public.reauthentication_failures (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  ip_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reauthentication_failures_user ON public.reauthentication_failures(user_id, created_at DESC);
+
+-- No policies: only the reauthenticate function (service role) reads and writes here
+ALTER TABLE public.reauthentication_failures ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,8 @@
+-- Video files and thumbnails can only be deleted right after the password
+-- was entered again, like the video rows they belong to. The delete-video
+-- function and the media worker use the service role and are not affected.
+CREATE POLICY "Deleting video files requires reauthentication"
+ON storage.objects
+AS RESTRICTIVE
+FOR DELETE
+USING (bucket_id NOT IN ('videos', 'thumbnails') OR has_recent_reauthentication());
@@ -0,0 +1,56 @@
+-- Support reviews subscription requests, nothing more: it may approve a
+-- pending request (setting its dates and clearing the receipt) but not edit
+-- active subscriptions or move a request to another student or course.
+DROP POLICY IF EXISTS "Support can review subscriptions" ON public.subscriptions;
+
+CREATE POLICY "Support can review pending subscriptions"
+ON public.subscriptions
+FOR UPDATE
+USING (has_role('support') AND status = 'pending')
+WITH CHECK (has_role('support') AND status IN ('pending', 'active'));
+
+CREATE OR REPLACE FUNCTION public.enforce_student_subscription_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF has_role('support') THEN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id
+      OR NEW.course_id IS DISTINCT FROM OLD.course_id
+      OR (NEW.payment_proof IS DISTINCT FROM OLD.payment_proof AND NEW.payment_proof IS NOT NULL) THEN
+      RAISE EXCEPTION 'Support can only approve subscription requests';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.course_id IS DISTINCT FROM OLD.course_id
+    OR NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date THEN
+    RAISE EXCEPTION 'Only administrators can change subscription dates';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Receipts are removed while approving, so only those of pending requests
+DROP POLICY IF EXISTS "Support can remove reviewed payment receipts" ON storage.objects;
+
+CREATE POLICY "Support can remove receipts of pending requests"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'payment-receipts'
+  AND has_role('support')
+  AND EXISTS (
+    SELECT 1 FROM public.subscriptions s
+    WHERE s.payment_proof = name
+    AND s.status = 'pending'
+  )
+);
@@ -0,0 +1,71 @@
+-- Recovery code attempts, used to throttle guessing the way course code
+-- redemptions are. No policies: only consume_mfa_recovery_code writes here.
+CREATE TABLE public.mfa_recovery_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  ip_address TEXT,
+  succeeded BOOLEAN NOT NULL,
+  attempted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.mfa_recovery_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_mfa_recovery_attempts_user ON public.mfa_recovery_attempts(user_id, attempted_at);
+
+-- Consuming a code now records the attempt and refuses further tries once a
+-- user has too many recent failures. Failures are returned instead of raised
+-- so the attempt is committed.
+DROP FUNCTION public.consume_mfa_recovery_code(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.consume_mfa_recovery_code(_user_id UUID, _code TEXT, _ip_address TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  max_failures CONSTANT INTEGER := 5;
+  failure_window CONSTANT INTERVAL := interval '15 minutes';
+  recent_failures INTEGER;
+  oldest_failure TIMESTAMP WITH TIME ZONE;
+  consumed BOOLEAN;
+BEGIN
+  -- Serialise attempts per user so failure counts cannot race
+  PERFORM pg_advisory_xact_lock(hashtext('consume_mfa_recovery_code:' || _user_id::text));
+
+  SELECT count(*), min(attempted_at) INTO recent_failures, oldest_failure
+  FROM (
+    SELECT attempted_at
+    FROM mfa_recovery_attempts
+    WHERE user_id = _user_id
+    AND NOT succeeded
+    AND attempted_at > now() - failure_window
+    ORDER BY attempted_at DESC
+    LIMIT max_failures
+  ) AS failures;
+
+  IF recent_failures >= max_failures THEN
+    RETURN jsonb_build_object('status', 'locked', 'locked_until', oldest_failure + failure_window);
+  END IF;
+
+  UPDATE mfa_recovery_codes
+  SET used_at = now()
+  WHERE user_id = _user_id
+  AND used_at IS NULL
+  AND code_hash = encode(extensions.digest(upper(replace(trim(_code), '-', '')), 'sha256'), 'hex');
+
+  consumed := FOUND;
+
+  INSERT INTO mfa_recovery_attempts (user_id, ip_address, succeeded)
+  VALUES (_user_id, NULLIF(_ip_address, ''), consumed);
+
+  IF NOT consumed THEN
+    RETURN jsonb_build_object('status', 'invalid_code');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'ok');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_mfa_recovery_code(UUID, TEXT, TEXT) TO service_role;
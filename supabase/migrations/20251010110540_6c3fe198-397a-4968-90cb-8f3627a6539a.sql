@@ -0,0 +1,262 @@
+-- Course codes are hashed with bcrypt and a per-row salt instead of a bare
+-- SHA-256, so a leaked table cannot be reversed with one precomputed lookup.
+-- Existing hashes cannot be recomputed from the plaintext, so every code is
+-- stored as bcrypt of its SHA-256 hex; old and new codes verify the same way.
+
+-- Salted hashes cannot be looked up directly. Rows are found by an HMAC of
+-- the code's SHA-256 under a key that never leaves the database, so the
+-- lookup column reveals nothing about the code without that key.
+CREATE TABLE public.course_password_secret (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  hmac_key BYTEA NOT NULL DEFAULT extensions.gen_random_bytes(32)
+);
+
+-- No policies: only the course password functions read the key
+ALTER TABLE public.course_password_secret ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.course_password_secret FROM PUBLIC, anon, authenticated;
+
+INSERT INTO public.course_password_secret DEFAULT VALUES;
+
+CREATE OR REPLACE FUNCTION public.course_password_lookup_key(_code_sha256 TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT encode(extensions.hmac(convert_to(_code_sha256, 'UTF8'), hmac_key, 'sha256'), 'hex')
+  FROM course_password_secret;
+$$;
+
+REVOKE ALL ON FUNCTION public.course_password_lookup_key(TEXT) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.course_passwords
+ADD COLUMN lookup_key TEXT;
+
+UPDATE public.course_passwords
+SET lookup_key = public.course_password_lookup_key(password_hash),
+    password_hash = extensions.crypt(password_hash, extensions.gen_salt('bf', 10));
+
+-- The hint kept the last characters of every code in plaintext
+DROP INDEX IF EXISTS public.idx_course_passwords_hash;
+
+ALTER TABLE public.course_passwords
+ALTER COLUMN lookup_key SET NOT NULL,
+DROP COLUMN code_hint;
+
+CREATE INDEX idx_course_passwords_lookup ON public.course_passwords(course_id, lookup_key);
+
+-- Same audit trigger as before, keeping the lookup key out of the log too
+CREATE OR REPLACE FUNCTION public.log_audit_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_role app_role;
+  old_row JSONB;
+  new_row JSONB;
+BEGIN
+  SELECT role INTO actor_role
+  FROM profiles
+  WHERE user_id = auth.uid();
+
+  IF actor_role IS NULL OR actor_role = 'student' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Never copy code hashes into the log
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD) - 'password_hash' - 'lookup_key';
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW) - 'password_hash' - 'lookup_key';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND old_row = new_row THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_role, action, target_table, target_id, old_data, new_data)
+  VALUES (
+    auth.uid(),
+    actor_role,
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    COALESCE(new_row, old_row) ->> 'id',
+    old_row,
+    new_row
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_course_password(
+  _course_id UUID,
+  _password TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_id UUID;
+  code TEXT := upper(trim(_password));
+  code_sha256 TEXT := encode(extensions.digest(upper(trim(_password)), 'sha256'), 'hex');
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create course passwords';
+  END IF;
+
+  IF length(code) < 6 THEN
+    RAISE EXCEPTION 'password_too_short';
+  END IF;
+
+  INSERT INTO course_passwords (course_id, password_hash, lookup_key)
+  VALUES (
+    _course_id,
+    extensions.crypt(code_sha256, extensions.gen_salt('bf', 10)),
+    course_password_lookup_key(code_sha256)
+  )
+  RETURNING id INTO new_id;
+
+  RETURN new_id;
+END;
+$$;
+
+-- Same redemption as before, verifying the code against its salted hash
+CREATE OR REPLACE FUNCTION public.redeem_course_password(
+  _user_id UUID,
+  _course_id UUID,
+  _password TEXT,
+  _ip_address TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  max_user_failures CONSTANT INTEGER := 5;
+  max_ip_failures CONSTANT INTEGER := 20;
+  failure_window CONSTANT INTERVAL := interval '15 minutes';
+  lockout_duration CONSTANT INTERVAL := interval '30 minutes';
+  ip TEXT := NULLIF(_ip_address, '');
+  code_sha256 TEXT := encode(extensions.digest(upper(trim(_password)), 'sha256'), 'hex');
+  active_lock TIMESTAMP WITH TIME ZONE;
+  last_user_lock TIMESTAMP WITH TIME ZONE;
+  last_ip_lock TIMESTAMP WITH TIME ZONE;
+  user_failures INTEGER;
+  ip_failures INTEGER;
+  password_id UUID;
+  course_duration INTEGER;
+  current_end TIMESTAMP WITH TIME ZONE;
+  new_end TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Serialise attempts per user so failure counts cannot race
+  PERFORM pg_advisory_xact_lock(hashtext('redeem_course_password:' || _user_id::text));
+
+  SELECT max(locked_until) INTO active_lock
+  FROM redemption_lockouts
+  WHERE ((scope = 'user' AND user_id = _user_id) OR (scope = 'ip' AND ip IS NOT NULL AND ip_address = ip))
+  AND locked_until > now();
+
+  IF active_lock IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'locked', 'locked_until', active_lock);
+  END IF;
+
+  SELECT duration_months INTO course_duration
+  FROM courses
+  WHERE id = _course_id AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'course_not_found';
+  END IF;
+
+  -- Lock the password row so two concurrent redemptions cannot both succeed
+  SELECT id INTO password_id
+  FROM course_passwords
+  WHERE course_id = _course_id
+  AND lookup_key = course_password_lookup_key(code_sha256)
+  AND used = false
+  AND expires_at > now()
+  AND password_hash = extensions.crypt(code_sha256, password_hash)
+  LIMIT 1
+  FOR UPDATE;
+
+  INSERT INTO redemption_attempts (user_id, course_id, ip_address, succeeded)
+  VALUES (_user_id, _course_id, ip, password_id IS NOT NULL);
+
+  IF password_id IS NULL THEN
+    -- Only failures after the previous lockout count towards the next one
+    SELECT max(locked_until) INTO last_user_lock
+    FROM redemption_lockouts
+    WHERE user_id = _user_id AND scope = 'user';
+
+    SELECT count(*) INTO user_failures
+    FROM redemption_attempts
+    WHERE user_id = _user_id
+    AND NOT succeeded
+    AND attempted_at > GREATEST(now() - failure_window, COALESCE(last_user_lock, '-infinity'));
+
+    IF user_failures >= max_user_failures THEN
+      INSERT INTO redemption_lockouts (user_id, ip_address, scope, failed_attempts, locked_until)
+      VALUES (_user_id, ip, 'user', user_failures, now() + lockout_duration);
+
+      RETURN jsonb_build_object('status', 'locked', 'locked_until', now() + lockout_duration);
+    END IF;
+
+    IF ip IS NOT NULL THEN
+      SELECT max(locked_until) INTO last_ip_lock
+      FROM redemption_lockouts
+      WHERE ip_address = ip AND scope = 'ip';
+
+      SELECT count(*) INTO ip_failures
+      FROM redemption_attempts
+      WHERE ip_address = ip
+      AND NOT succeeded
+      AND attempted_at > GREATEST(now() - failure_window, COALESCE(last_ip_lock, '-infinity'));
+
+      IF ip_failures >= max_ip_failures THEN
+        INSERT INTO redemption_lockouts (user_id, ip_address, scope, failed_attempts, locked_until)
+        VALUES (_user_id, ip, 'ip', ip_failures, now() + lockout_duration);
+
+        RETURN jsonb_build_object('status', 'locked', 'locked_until', now() + lockout_duration);
+      END IF;
+    END IF;
+
+    RETURN jsonb_build_object('status', 'invalid_password');
+  END IF;
+
+  UPDATE course_passwords
+  SET used = true
+  WHERE id = password_id;
+
+  -- Extend from the current end date if the subscription is still running
+  SELECT end_date INTO current_end
+  FROM subscriptions
+  WHERE user_id = _user_id
+  AND course_id = _course_id
+  AND status = 'active'
+  FOR UPDATE;
+
+  new_end := GREATEST(COALESCE(current_end, now()), now())
+    + make_interval(months => course_duration);
+
+  INSERT INTO subscriptions (user_id, course_id, status, start_date, end_date)
+  VALUES (_user_id, _course_id, 'active', now(), new_end)
+  ON CONFLICT (user_id, course_id) DO UPDATE
+  SET status = 'active',
+      start_date = CASE
+        WHEN subscriptions.status = 'active' AND subscriptions.end_date >= now()
+        THEN subscriptions.start_date
+        ELSE now()
+      END,
+      end_date = EXCLUDED.end_date;
+
+  RETURN jsonb_build_object('status', 'ok', 'end_date', new_end);
+END;
+$$;
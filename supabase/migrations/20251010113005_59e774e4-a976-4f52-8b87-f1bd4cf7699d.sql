@@ -0,0 +1,93 @@
+-- Audit entries for changes made with the service role. log_audit_event only
+-- sees auth.uid(), which is null there, so account deletions, session
+-- revocations and media worker status changes were never logged. The edge
+-- functions and the worker now write these entries with the acting staff id.
+
+ALTER TABLE public.audit_log
+DROP CONSTRAINT audit_log_action_check;
+
+ALTER TABLE public.audit_log
+ADD CONSTRAINT audit_log_action_check
+CHECK (action IN ('insert', 'update', 'delete', 'impersonate', 'delete_account', 'revoke_sessions'));
+
+-- Who queued a video, so the worker's status changes can name them
+ALTER TABLE public.videos
+ADD COLUMN processing_queued_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Same rules as before, now also covering who queued the video
+CREATE OR REPLACE FUNCTION public.enforce_video_processing_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') OR NEW.video_type IS DISTINCT FROM 'file' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status::text <> 'processing' THEN
+    RAISE EXCEPTION 'Uploaded videos must start in processing';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status::text IN ('processing', 'failed') AND NEW.status <> OLD.status THEN
+    RAISE EXCEPTION 'Uploaded videos become ready once processing succeeds';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.width IS DISTINCT FROM OLD.width
+    OR NEW.height IS DISTINCT FROM OLD.height
+    OR NEW.video_codec IS DISTINCT FROM OLD.video_codec
+    OR NEW.audio_codec IS DISTINCT FROM OLD.audio_codec
+    OR NEW.file_size_bytes IS DISTINCT FROM OLD.file_size_bytes
+    OR NEW.processing_queued_at IS DISTINCT FROM OLD.processing_queued_at
+    OR NEW.processing_queued_by IS DISTINCT FROM OLD.processing_queued_by
+    OR NEW.processing_started_at IS DISTINCT FROM OLD.processing_started_at
+    OR NEW.processing_error IS DISTINCT FROM OLD.processing_error
+    OR NEW.processing_attempts IS DISTINCT FROM OLD.processing_attempts
+  ) THEN
+    RAISE EXCEPTION 'Media details are set by the processing worker';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Records a change made with the service role on behalf of a staff member.
+-- The role is read from the actor's profile; _via names the component that
+-- carried the change out (e.g. the media worker) and is kept with the data.
+CREATE OR REPLACE FUNCTION public.log_service_action(
+  _actor_id UUID,
+  _action TEXT,
+  _target_table TEXT,
+  _target_id TEXT,
+  _old_data JSONB,
+  _new_data JSONB,
+  _via TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_role app_role;
+BEGIN
+  SELECT role INTO actor_role
+  FROM profiles
+  WHERE user_id = _actor_id;
+
+  INSERT INTO audit_log (actor_id, actor_role, action, target_table, target_id, old_data, new_data)
+  VALUES (
+    _actor_id,
+    COALESCE(actor_role::text, 'unknown'),
+    _action,
+    _target_table,
+    _target_id,
+    _old_data,
+    COALESCE(_new_data, '{}'::jsonb) || jsonb_build_object('via', _via)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.log_service_action(UUID, TEXT, TEXT, TEXT, JSONB, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.log_service_action(UUID, TEXT, TEXT, TEXT, JSONB, JSONB, TEXT) TO service_role;
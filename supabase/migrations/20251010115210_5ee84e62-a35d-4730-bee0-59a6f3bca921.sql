@@ -0,0 +1,122 @@
+-- Device slots are counted from issued playback sessions: a device holds a
+-- slot while it is not revoked and received a playback token in the last 30
+-- days. The device id is chosen by the browser, so revoking a device and
+-- playing with a fresh id could free a slot at will; students may therefore
+-- revoke only a limited number of their own devices per 30 days. Admins can
+-- still revoke or reset devices without a limit.
+ALTER TABLE public.user_devices
+ADD COLUMN revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.claim_playback_slot(
+  _user_id UUID,
+  _device_id TEXT,
+  _user_agent TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  slot_window CONSTANT INTERVAL := interval '30 days';
+  device user_devices%ROWTYPE;
+  max_devices INTEGER;
+  max_streams INTEGER;
+BEGIN
+  SELECT COALESCE((SELECT value::text::integer FROM app_settings WHERE key = 'max_devices_per_user'), 2)
+  INTO max_devices;
+  SELECT COALESCE((SELECT value::text::integer FROM app_settings WHERE key = 'max_concurrent_streams'), 1)
+  INTO max_streams;
+
+  -- Serialize claims per user so parallel requests cannot exceed the limits
+  PERFORM pg_advisory_xact_lock(hashtext(_user_id::text));
+
+  SELECT * INTO device
+  FROM user_devices
+  WHERE user_id = _user_id AND device_id = _device_id;
+
+  IF FOUND AND device.revoked_at IS NOT NULL THEN
+    RETURN 'device_revoked';
+  END IF;
+
+  IF NOT FOUND THEN
+    IF (
+      SELECT count(*) FROM user_devices d
+      WHERE d.user_id = _user_id
+      AND d.revoked_at IS NULL
+      AND EXISTS (
+        SELECT 1 FROM playback_issuances pi
+        WHERE pi.user_id = d.user_id
+        AND pi.device_id = d.device_id
+        AND pi.issued_at > now() - slot_window
+      )
+    ) >= max_devices THEN
+      RETURN 'device_limit';
+    END IF;
+
+    INSERT INTO user_devices (user_id, device_id, user_agent)
+    VALUES (_user_id, _device_id, _user_agent);
+  ELSE
+    UPDATE user_devices
+    SET last_seen_at = now(), user_agent = _user_agent
+    WHERE id = device.id;
+  END IF;
+
+  IF (
+    SELECT count(DISTINCT pi.device_id) FROM playback_issuances pi
+    WHERE pi.user_id = _user_id
+    AND pi.expires_at > now()
+    AND pi.device_id IS DISTINCT FROM _device_id
+  ) >= max_streams THEN
+    RETURN 'stream_limit';
+  END IF;
+
+  RETURN 'ok';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_user_device(_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  max_self_revokes CONSTANT INTEGER := 2;
+  revoke_window CONSTANT INTERVAL := interval '30 days';
+  device user_devices%ROWTYPE;
+BEGIN
+  SELECT * INTO device
+  FROM user_devices
+  WHERE id = _id
+  AND (user_id = auth.uid() OR is_admin());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Device not found';
+  END IF;
+
+  -- Serialize with claim_playback_slot so the limit cannot be raced
+  PERFORM pg_advisory_xact_lock(hashtext(device.user_id::text));
+
+  IF NOT is_admin() AND (
+    SELECT count(*) FROM user_devices
+    WHERE user_id = device.user_id
+    AND revoked_by = device.user_id
+    AND revoked_at > now() - revoke_window
+  ) >= max_self_revokes THEN
+    RAISE EXCEPTION 'revoke_limit';
+  END IF;
+
+  UPDATE user_devices
+  SET revoked_at = now(), revoked_by = auth.uid()
+  WHERE id = _id
+  AND revoked_at IS NULL;
+
+  -- End any stream currently running on the revoked device
+  UPDATE playback_issuances
+  SET expires_at = now()
+  WHERE user_id = device.user_id
+  AND device_id = device.device_id
+  AND expires_at > now();
+END;
+$$;
@@ -0,0 +1,54 @@
+-- Instructors manage a storage object when a video they manage points at it,
+-- so a video row must not be able to point at someone else's file. New
+-- uploads go under videos/<uploader id>/ and file_path never changes once set.
+
+DROP POLICY IF EXISTS "Instructors can upload videos" ON public.videos;
+
+CREATE POLICY "Instructors can upload videos"
+ON public.videos
+FOR INSERT
+WITH CHECK (
+  has_role('instructor')
+  AND uploaded_by = auth.uid()
+  AND (file_path IS NULL OR file_path LIKE 'videos/' || auth.uid()::text || '/%')
+);
+
+DROP POLICY IF EXISTS "Instructors can update their videos" ON public.videos;
+
+CREATE POLICY "Instructors can update their videos"
+ON public.videos
+FOR UPDATE
+USING (has_role('instructor') AND can_manage_video(id))
+WITH CHECK (has_role('instructor') AND can_manage_video(id));
+
+CREATE OR REPLACE FUNCTION public.enforce_video_file_path()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('authenticated', 'anon') AND NEW.file_path IS DISTINCT FROM OLD.file_path THEN
+    RAISE EXCEPTION 'The file of a video cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_video_file_path
+BEFORE UPDATE ON public.videos
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_video_file_path();
+
+-- New source files only under the instructor's own folder; files of older
+-- uploads stay reachable through "Instructors can manage their video files"
+DROP POLICY IF EXISTS "Instructors can upload video files" ON storage.objects;
+
+CREATE POLICY "Instructors can upload video files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'videos'
+  AND has_role('instructor')
+  AND name LIKE 'videos/' || auth.uid()::text || '/%'
+);
@@ -0,0 +1,51 @@
+-- The processing rules only applied when the new row was an uploaded file,
+-- so an update switching video_type away from 'file' (or to it) could
+-- publish an unprocessed upload or forge its media details. API roles can no
+-- longer change the type of an uploaded video, and updates are judged by the
+-- stored type.
+CREATE OR REPLACE FUNCTION public.enforce_video_processing_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.video_type IS DISTINCT FROM OLD.video_type
+    AND 'file' IN (OLD.video_type, NEW.video_type) THEN
+    RAISE EXCEPTION 'Uploaded videos cannot change their type';
+  END IF;
+
+  -- On updates the stored type decides, so it cannot be switched to skip the rules
+  IF (CASE WHEN TG_OP = 'UPDATE' THEN OLD.video_type ELSE NEW.video_type END) IS DISTINCT FROM 'file' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status::text <> 'processing' THEN
+    RAISE EXCEPTION 'Uploaded videos must start in processing';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status::text IN ('processing', 'failed') AND NEW.status <> OLD.status THEN
+    RAISE EXCEPTION 'Uploaded videos become ready once processing succeeds';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (
+    NEW.width IS DISTINCT FROM OLD.width
+    OR NEW.height IS DISTINCT FROM OLD.height
+    OR NEW.video_codec IS DISTINCT FROM OLD.video_codec
+    OR NEW.audio_codec IS DISTINCT FROM OLD.audio_codec
+    OR NEW.file_size_bytes IS DISTINCT FROM OLD.file_size_bytes
+    OR NEW.processing_queued_at IS DISTINCT FROM OLD.processing_queued_at
+    OR NEW.processing_queued_by IS DISTINCT FROM OLD.processing_queued_by
+    OR NEW.processing_started_at IS DISTINCT FROM OLD.processing_started_at
+    OR NEW.processing_error IS DISTINCT FROM OLD.processing_error
+    OR NEW.processing_attempts IS DISTINCT FROM OLD.processing_attempts
+  ) THEN
+    RAISE EXCEPTION 'Media details are set by the processing worker';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,138 @@
+// Packages uploaded file videos as AES-128 encrypted HLS.
+//
+// Runs next to ffmpeg (not as an edge function):
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env --allow-read --allow-write --allow-run worker/hls-packager.ts [--once]
+//
+// Segments are uploaded to `hls/<video id>/` in the videos bucket, the key goes to
+// video_encryption_keys and is only handed out by the hls-key edge function.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { downloadToFile } from './storage.ts';
+
+const POLL_INTERVAL_MS = 30_000;
+const SEGMENT_SECONDS = 6;
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const packageVideo = async (video: { id: string; file_path: string }) => {
+  const workDir = await Deno.makeTempDir({ prefix: `hls-${video.id}-` });
+  const outDir = `${workDir}/out`;
+  await Deno.mkdir(outDir);
+
+  try {
+    // Package the largest web-friendly rendition rather than the raw upload
+    const { data: rendition, error: renditionError } = await supabase
+      .from('video_renditions')
+      .select('file_path')
+      .eq('video_id', video.id)
+      .order('height', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (renditionError) throw renditionError;
+
+    const inputPath = `${workDir}/input`;
+    await downloadToFile(supabase, 'videos', rendition?.file_path ?? video.file_path, inputPath);
+
+    const key = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(16));
+    const keyPath = `${workDir}/enc.key`;
+    await Deno.writeFile(keyPath, key);
+
+    // Key info file: key URI written into the playlist, local key path, IV.
+    // get-playback-url replaces the URI with the hls-key endpoint on every request.
+    const keyInfoPath = `${workDir}/enc.keyinfo`;
+    await Deno.writeTextFile(keyInfoPath, `key\n${keyPath}\n${toHex(iv)}\n`);
+
+    const ffmpeg = new Deno.Command('ffmpeg', {
+      args: [
+        '-y',
+        '-i', inputPath,
+        '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23',
+        '-c:a', 'aac', '-b:a', '128k',
+        '-hls_time', String(SEGMENT_SECONDS),
+        '-hls_playlist_type', 'vod',
+        '-hls_key_info_file', keyInfoPath,
+        '-hls_segment_filename', `${outDir}/seg_%04d.ts`,
+        `${outDir}/index.m3u8`,
+      ],
+      stdout: 'null',
+      stderr: 'piped',
+    });
+
+    const { success, stderr } = await ffmpeg.output();
+    if (!success) {
+      throw new Error(`ffmpeg failed: ${new TextDecoder().decode(stderr).slice(-500)}`);
+    }
+
+    const hlsFolder = `hls/${video.id}`;
+    for await (const entry of Deno.readDir(outDir)) {
+      const contentType = entry.name.endsWith('.m3u8') ? 'application/vnd.apple.mpegurl' : 'video/mp2t';
+      const { error: uploadError } = await supabase.storage
+        .from('videos')
+        .upload(`${hlsFolder}/${entry.name}`, await Deno.readFile(`${outDir}/${entry.name}`), {
+          contentType,
+          upsert: true,
+        });
+
+      if (uploadError) throw uploadError;
+    }
+
+    // Store the key before publishing the playlist so players never miss it
+    const { error: keyError } = await supabase
+      .from('video_encryption_keys')
+      .upsert({ video_id: video.id, key_hex: toHex(key), iv_hex: toHex(iv) });
+
+    if (keyError) throw keyError;
+
+    const { error: updateError } = await supabase
+      .from('videos')
+      .update({ hls_path: `${hlsFolder}/index.m3u8` })
+      .eq('id', video.id);
+
+    if (updateError) throw updateError;
+
+    console.log('Packaged video as HLS:', video.id);
+  } finally {
+    await Deno.remove(workDir, { recursive: true });
+  }
+};
+
+const packagePending = async () => {
+  const { data: videos, error } = await supabase
+    .from('videos')
+    .select('id, file_path')
+    .eq('video_type', 'file')
+    .eq('status', 'ready')
+    .is('hls_path', null)
+    .not('file_path', 'is', null);
+
+  if (error) throw error;
+
+  for (const video of videos ?? []) {
+    try {
+      await packageVideo(video);
+    } catch (e) {
+      console.error('Error packaging video:', video.id, e);
+    }
+  }
+};
+
+const once = Deno.args.includes('--once');
+
+while (true) {
+  try {
+    await packagePending();
+  } catch (e) {
+    console.error('Error fetching videos to package:', e);
+  }
+
+  if (once) break;
+  await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+}
@@ -0,0 +1,103 @@
+// Streaming storage transfers for the media workers. Sources and renditions
+// can be several GB, so files go between storage and disk without ever being
+// held in memory whole.
+import type { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const RESUMABLE_ENDPOINT = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+// Supabase storage only accepts 6 MiB chunks on the resumable endpoint
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+
+export const downloadToFile = async (
+  supabase: ReturnType<typeof createClient>,
+  bucket: string,
+  path: string,
+  destination: string
+) => {
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .createSignedUrl(path, DOWNLOAD_URL_TTL_SECONDS);
+
+  if (error || !data) throw error ?? new Error(`Failed to sign ${path}`);
+
+  const response = await fetch(data.signedUrl);
+  if (!response.ok || !response.body) {
+    throw new Error(`Failed to download ${path}: ${response.status}`);
+  }
+
+  // pipeTo closes the file once the body is written
+  const file = await Deno.open(destination, { write: true, create: true, truncate: true });
+  await response.body.pipeTo(file.writable);
+};
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata).map(([key, value]) => `${key} ${btoa(value)}`).join(',');
+
+// Uploads a local file through the resumable (TUS) endpoint one chunk at a
+// time, replacing any existing object. Returns the size in bytes.
+export const uploadFromFile = async (bucket: string, path: string, source: string, contentType: string) => {
+  const { size } = await Deno.stat(source);
+  const headers = {
+    authorization: `Bearer ${SERVICE_ROLE_KEY}`,
+    'tus-resumable': '1.0.0',
+  };
+
+  const createResponse = await fetch(RESUMABLE_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'upload-length': String(size),
+      'upload-metadata': encodeMetadata({ bucketName: bucket, objectName: path, contentType, cacheControl: '3600' }),
+      'x-upsert': 'true',
+    },
+  });
+  const createBody = await createResponse.text();
+
+  const location = createResponse.headers.get('location');
+  if (createResponse.status !== 201 || !location) {
+    throw new Error(`Failed to start upload of ${path}: ${createResponse.status} ${createBody.slice(0, 200)}`);
+  }
+  const uploadUrl = new URL(location, RESUMABLE_ENDPOINT).toString();
+
+  const file = await Deno.open(source, { read: true });
+  try {
+    const buffer = new Uint8Array(CHUNK_SIZE);
+    let offset = 0;
+
+    while (offset < size) {
+      let length = 0;
+      while (length < CHUNK_SIZE) {
+        const read = await file.read(buffer.subarray(length));
+        if (read === null) break;
+        length += read;
+      }
+
+      const patchResponse = await fetch(uploadUrl, {
+        method: 'PATCH',
+        headers: {
+          ...headers,
+          'upload-offset': String(offset),
+          'content-type': 'application/offset+octet-stream',
+        },
+        body: buffer.subarray(0, length),
+      });
+      const patchBody = await patchResponse.text();
+
+      if (patchResponse.status !== 204) {
+        throw new Error(`Failed to upload ${path} at byte ${offset}: ${patchResponse.status} ${patchBody.slice(0, 200)}`);
+      }
+
+      const nextOffset = Number(patchResponse.headers.get('upload-offset'));
+      if (!(nextOffset > offset)) {
+        throw new Error(`Upload of ${path} did not advance past byte ${offset}`);
+      }
+      offset = nextOffset;
+    }
+  } finally {
+    file.close();
+  }
+
+  return size;
+};
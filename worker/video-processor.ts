@@ -0,0 +1,316 @@
+// Probes and transcodes uploaded file videos, then marks them ready.
+//
+// Runs next to ffmpeg and ffprobe (not as an edge function):
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env --allow-read --allow-write --allow-run worker/video-processor.ts [--once]
+//
+// Picks up videos queued by process-video-upload, records duration, resolution,
+// codecs and size on `videos` and uploads H.264/AAC MP4 renditions to
+// `renditions/<video id>/` and candidate thumbnails to the thumbnails bucket.
+// hls-packager.ts packages ready videos afterwards.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1';
+import { downloadToFile, uploadFromFile } from './storage.ts';
+
+const POLL_INTERVAL_MS = 15_000;
+// A job still running after this long belongs to a worker that died
+const STALE_JOB_MS = 2 * 60 * 60 * 1000;
+
+// Target heights with their video bitrate cap; sources are never upscaled
+const RENDITIONS = [
+  { height: 1080, maxrateKbps: 5000 },
+  { height: 720, maxrateKbps: 2800 },
+  { height: 480, maxrateKbps: 1400 },
+  { height: 360, maxrateKbps: 800 },
+];
+
+// Candidate thumbnail frames as a share of the duration; the first becomes the
+// default (10% in skips most intros and fades from black)
+const THUMBNAIL_POSITIONS = [0.1, 0.3, 0.5, 0.7];
+const THUMBNAIL_WIDTH = 640;
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL') ?? '',
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+);
+
+interface MediaInfo {
+  durationSeconds: number | null;
+  width: number;
+  height: number;
+  videoCodec: string | null;
+  audioCodec: string | null;
+  sizeBytes: number | null;
+}
+
+const run = async (command: string, args: string[]) => {
+  const { success, stdout, stderr } = await new Deno.Command(command, {
+    args,
+    stdout: 'piped',
+    stderr: 'piped',
+  }).output();
+
+  if (!success) {
+    throw new Error(`${command} failed: ${new TextDecoder().decode(stderr).slice(-500)}`);
+  }
+  return new TextDecoder().decode(stdout);
+};
+
+const probe = async (inputPath: string): Promise<MediaInfo> => {
+  const output = await run('ffprobe', [
+    '-v', 'error',
+    '-print_format', 'json',
+    '-show_format',
+    '-show_streams',
+    inputPath,
+  ]);
+
+  const { format, streams = [] } = JSON.parse(output);
+  const videoStream = streams.find((stream: { codec_type: string }) => stream.codec_type === 'video');
+  const audioStream = streams.find((stream: { codec_type: string }) => stream.codec_type === 'audio');
+
+  if (!videoStream?.width || !videoStream?.height) {
+    throw new Error('No video stream found');
+  }
+
+  // Phones store portrait video as landscape plus a rotation; ffmpeg applies
+  // it when transcoding, so report the size as it is displayed
+  const rotation = Math.abs(Number(
+    videoStream.tags?.rotate ??
+    videoStream.side_data_list?.find((data: { rotation?: number }) => data.rotation !== undefined)?.rotation ??
+    0
+  ));
+  const rotated = rotation === 90 || rotation === 270;
+
+  return {
+    durationSeconds: Math.round(Number(format?.duration)) || null,
+    width: rotated ? videoStream.height : videoStream.width,
+    height: rotated ? videoStream.width : videoStream.height,
+    videoCodec: videoStream.codec_name ?? null,
+    audioCodec: audioStream?.codec_name ?? null,
+    sizeBytes: Number(format?.size) || null,
+  };
+};
+
+const transcode = async (inputPath: string, outputPath: string, height: number, maxrateKbps: number, hasAudio: boolean) => {
+  await run('ffmpeg', [
+    '-y',
+    '-i', inputPath,
+    '-vf', `scale=-2:${height}`,
+    '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '23',
+    '-profile:v', 'main', '-pix_fmt', 'yuv420p',
+    '-maxrate', `${maxrateKbps}k`, '-bufsize', `${maxrateKbps * 2}k`,
+    ...(hasAudio ? ['-c:a', 'aac', '-b:a', '128k', '-ac', '2'] : ['-an']),
+    '-movflags', '+faststart',
+    outputPath,
+  ]);
+};
+
+const extractThumbnails = async (inputPath: string, workDir: string, videoId: string, durationSeconds: number | null) => {
+  const paths: string[] = [];
+
+  for (const [index, position] of THUMBNAIL_POSITIONS.entries()) {
+    const outputPath = `${workDir}/frame-${index + 1}.jpg`;
+    await run('ffmpeg', [
+      '-y',
+      '-ss', String(Math.floor((durationSeconds ?? 0) * position)),
+      '-i', inputPath,
+      // thumbnail picks the most representative of the next frames, which
+      // avoids landing on a blurred or transition frame
+      '-vf', `thumbnail=50,scale=${THUMBNAIL_WIDTH}:-2`,
+      '-frames:v', '1',
+      '-q:v', '3',
+      outputPath,
+    ]);
+
+    const filePath = `${videoId}/frame-${index + 1}.jpg`;
+    const { error: uploadError } = await supabase.storage
+      .from('thumbnails')
+      .upload(filePath, await Deno.readFile(outputPath), { contentType: 'image/jpeg', upsert: true });
+
+    if (uploadError) throw uploadError;
+    paths.push(filePath);
+  }
+
+  return paths;
+};
+
+interface QueuedVideo {
+  id: string;
+  processing_queued_by: string | null;
+}
+
+// The worker writes with the service role, so the audit trigger cannot see
+// who asked for the change; status changes are logged for whoever queued it
+const auditStatusChange = async (video: QueuedVideo, newData: Record<string, unknown>) => {
+  const { error } = await supabase.rpc('log_service_action', {
+    _actor_id: video.processing_queued_by,
+    _action: 'update',
+    _target_table: 'videos',
+    _target_id: video.id,
+    _old_data: { status: 'processing' },
+    _new_data: newData,
+    _via: 'media-worker',
+  });
+
+  if (error) console.error('Error auditing video status change:', video.id, error);
+};
+
+const markFailed = async (video: QueuedVideo, message: string) => {
+  const processingError = message.slice(0, 1000);
+  const { error } = await supabase
+    .from('videos')
+    .update({
+      status: 'failed',
+      processing_error: processingError,
+      processing_queued_at: null,
+      processing_started_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', video.id);
+
+  if (error) {
+    console.error('Error marking video as failed:', video.id, error);
+    return;
+  }
+
+  await auditStatusChange(video, { status: 'failed', processing_error: processingError });
+};
+
+const processVideo = async (video: QueuedVideo & { file_path: string; processing_attempts: number; thumbnail_path: string | null }) => {
+  // Claim the job so a second worker skips it
+  const { data: claimed, error: claimError } = await supabase
+    .from('videos')
+    .update({
+      processing_started_at: new Date().toISOString(),
+      processing_attempts: video.processing_attempts + 1,
+    })
+    .eq('id', video.id)
+    .eq('status', 'processing')
+    .is('processing_started_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) throw claimError;
+  if (!claimed) return;
+
+  const workDir = await Deno.makeTempDir({ prefix: `media-${video.id}-` });
+
+  try {
+    const inputPath = `${workDir}/input`;
+    await downloadToFile(supabase, 'videos', video.file_path, inputPath);
+
+    const info = await probe(inputPath);
+
+    // Smaller sources get a single rendition at their own (even) height
+    const targets = RENDITIONS.filter((rendition) => rendition.height <= info.height);
+    if (targets.length === 0) {
+      targets.push({ height: info.height - (info.height % 2), maxrateKbps: RENDITIONS[RENDITIONS.length - 1].maxrateKbps });
+    }
+
+    const renditionRows = [];
+    for (const { height, maxrateKbps } of targets) {
+      const outputPath = `${workDir}/${height}p.mp4`;
+      await transcode(inputPath, outputPath, height, maxrateKbps, info.audioCodec !== null);
+
+      const filePath = `renditions/${video.id}/${height}p.mp4`;
+      const sizeBytes = await uploadFromFile('videos', filePath, outputPath, 'video/mp4');
+
+      renditionRows.push({
+        video_id: video.id,
+        width: Math.round((info.width * height) / info.height / 2) * 2,
+        height,
+        bitrate_kbps: info.durationSeconds ? Math.round((sizeBytes * 8) / 1000 / info.durationSeconds) : null,
+        file_path: filePath,
+        file_size_bytes: sizeBytes,
+      });
+    }
+
+    const thumbnails = await extractThumbnails(inputPath, workDir, video.id, info.durationSeconds);
+
+    const { error: renditionsError } = await supabase
+      .from('video_renditions')
+      .upsert(renditionRows, { onConflict: 'video_id,height' });
+
+    if (renditionsError) throw renditionsError;
+
+    const { error: updateError } = await supabase
+      .from('videos')
+      .update({
+        duration_seconds: info.durationSeconds,
+        width: info.width,
+        height: info.height,
+        video_codec: info.videoCodec,
+        audio_codec: info.audioCodec,
+        file_size_bytes: info.sizeBytes,
+        // Keep a thumbnail staff already chose (e.g. before a retry)
+        thumbnail_path: video.thumbnail_path ?? thumbnails[0],
+        status: 'ready',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', video.id);
+
+    if (updateError) throw updateError;
+
+    await auditStatusChange(video, { status: 'ready' });
+
+    console.log('Processed video:', video.id, `${info.width}x${info.height}`, targets.map((t) => `${t.height}p`).join(', '));
+  } catch (e) {
+    // Shown in Video Management, which can queue it again
+    await markFailed(video, e instanceof Error ? e.message : String(e));
+    throw e;
+  } finally {
+    await Deno.remove(workDir, { recursive: true });
+  }
+};
+
+const failStaleJobs = async () => {
+  const { data: stale, error } = await supabase
+    .from('videos')
+    .select('id, processing_queued_by')
+    .eq('status', 'processing')
+    .lt('processing_started_at', new Date(Date.now() - STALE_JOB_MS).toISOString());
+
+  if (error) throw error;
+
+  for (const video of stale ?? []) {
+    console.warn('Processing timed out:', video.id);
+    await markFailed(video, 'Processing timed out');
+  }
+};
+
+const processQueued = async () => {
+  await failStaleJobs();
+
+  const { data: videos, error } = await supabase
+    .from('videos')
+    .select('id, file_path, processing_attempts, thumbnail_path, processing_queued_by')
+    .eq('video_type', 'file')
+    .eq('status', 'processing')
+    .not('processing_queued_at', 'is', null)
+    .is('processing_started_at', null)
+    .not('file_path', 'is', null)
+    .order('processing_queued_at', { ascending: true });
+
+  if (error) throw error;
+
+  for (const video of videos ?? []) {
+    try {
+      await processVideo(video);
+    } catch (e) {
+      console.error('Error processing video:', video.id, e);
+    }
+  }
+};
+
+const once = Deno.args.includes('--once');
+
+while (true) {
+  try {
+    await processQueued();
+  } catch (e) {
+    console.error('Error fetching videos to process:', e);
+  }
+
+  if (once) break;
+  await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+}